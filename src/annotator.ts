@@ -1,12 +1,18 @@
 import ast from 'luaparse'
-import { getParameterList } from './parser/utils'
-import { LuaClass, LuaFunction, LuaSourceInfo } from './parser/types'
+import { getFunctionReturns, getParameterHints, getParameterList, getRequiredModule } from './parser/utils'
+import { LuaAssignment, LuaClass, LuaDocComment, LuaDocTag, LuaEnumKind, LuaField, LuaFunction, LuaSourceInfo } from './parser/types'
 import { AnnotateArgs } from './types'
+import { InferenceScope, inferExpressionType, inferReturnTypes, unionTypes } from './inference'
+import { SymbolTable } from './symbols'
+import { compareParameters, getRosettaConstructor } from './drift'
 
-import { Rosetta, RosettaLuaFunction, RosettaLuaConstructor } from 'pz-rosetta-ts'
+import { Rosetta, RosettaLuaClass, RosettaLuaFunction, RosettaLuaConstructor } from 'pz-rosetta-ts'
 
 const PREAMBLE = '---@meta\n'
 let rosetta: Rosetta
+let scope: InferenceScope
+let warnings: string[] | undefined
+let referencedClasses: Set<string> = new Set()
 
 const includeAsIs = (expr: ast.Expression): boolean => {
     switch (expr.type) {
@@ -57,7 +63,7 @@ const rewriteCall = (base: ast.Expression, args: ast.Expression[]): string | und
  * Rewrites a Lua expression.
  * Function bodies are not preserved.
  */
-const rewriteExpression = (expr?: ast.Expression, tabLevel = 1): string | undefined => {
+export const rewriteExpression = (expr?: ast.Expression, tabLevel = 1): string | undefined => {
     if (!expr) return
 
     switch (expr.type) {
@@ -146,9 +152,11 @@ const rewriteTable = (init?: ast.TableConstructorExpression, tabLevel = 1) => {
         out.push('    '.repeat(tabLevel))
 
         if (field.value.type === 'FunctionDeclaration') {
-            out.push('---@return any')
-            out.push('\n')
-            out.push('    '.repeat(tabLevel))
+            for (const line of getFunctionAnnotations(field.value)) {
+                out.push(line)
+                out.push('\n')
+                out.push('    '.repeat(tabLevel))
+            }
         }
 
         if (field.type === 'TableKey') {
@@ -183,10 +191,30 @@ const rewriteTable = (init?: ast.TableConstructorExpression, tabLevel = 1) => {
     return '{' + out.join('')
 }
 
-const shouldSkipClassAnnotation = (cls: LuaClass, filename: string): boolean => {
+/**
+ * Gets the names of the tables which contain nested classes.
+ */
+export const getParentNames = (classes: LuaClass[]): Set<string> => {
+    const parents = new Set<string>()
+    for (const cls of classes) {
+        let name = cls.name
+        let dot = name.lastIndexOf('.')
+        while (dot !== -1) {
+            name = name.slice(0, dot)
+            parents.add(name)
+            dot = name.lastIndexOf('.')
+        }
+    }
+
+    return parents
+}
+
+export const shouldSkipClassAnnotation = (cls: LuaClass, filename: string): boolean => {
     if (cls.noAnnotation) return true
-    if (cls.name === filename) return false
+    if (cls.name === filename || cls.localName) return false
+    if (cls.doc && Object.keys(cls.doc.fields).length > 0) return false
     if (cls.base) return false
+    if (cls.mixins && cls.mixins.length > 0) return false
     if (cls.statics.length > 0) return false
     if (cls.functions.length > 0) return false
     if (cls.methods.length > 0) return false
@@ -194,83 +222,270 @@ const shouldSkipClassAnnotation = (cls: LuaClass, filename: string): boolean =>
     return true
 }
 
-const annotateMemberFunction = (
+const inferFieldType = (field: LuaField): string => {
+    return unionTypes(field.values.map(value => inferExpressionType(value, scope))) ?? 'any'
+}
+
+const formatDocTag = (tag: string, doc: LuaDocTag): string => {
+    const name = doc.name ? ` ${doc.name}${doc.optional ? '?' : ''}` : ''
+    const notes = doc.notes ? ` ${doc.notes}` : ''
+    return `---@${tag}${name} ${doc.type}${notes}`
+}
+
+/**
+ * Gets the description and unhandled tags of a source comment.
+ */
+const getDocHeader = (doc: LuaDocComment | undefined, includeDescription = true): string[] => {
+    if (!doc) return []
+
+    const lines = includeDescription ? doc.description.map(line => `--- ${line}`.trimEnd()) : []
+    for (const tag of doc.tags) {
+        lines.push(`---${tag}`)
+    }
+
+    return lines
+}
+
+type ParameterSource = Pick<LuaFunction, 'parameters' | 'parameterHints' | 'doc'>
+
+export const getParameterTag = (func: ParameterSource, param: string, selfType?: string): LuaDocTag => {
+    // annotations in the source take precedence over inference
+    const docParam = func.doc?.params[param]
+    if (docParam) return docParam
+
+    if (param === '...') {
+        return { name: param, type: 'any' }
+    }
+
+    if (param === 'self' && selfType) {
+        return { name: param, type: selfType }
+    }
+
+    const hint = func.parameterHints[param]
+    if (!hint) {
+        return { name: param, type: 'any' }
+    }
+
+    const defaultTypes = hint.defaults.map(value => inferExpressionType(value, scope))
+    let type = unionTypes([...hint.types, ...defaultTypes]) ?? 'any'
+    if (type.endsWith('?')) {
+        type = type.slice(0, -1)
+    }
+
+    return { name: param, type, optional: hint.optional }
+}
+
+const getParameterAnnotations = (func: ParameterSource, selfType?: string): string[] => {
+    return func.parameters.map(param => formatDocTag('param', getParameterTag(func, param, selfType)))
+}
+
+type ReturnSource = Pick<LuaFunction, 'returns' | 'fallsThrough' | 'doc'>
+
+/**
+ * Gets the return values of a function from its annotations, or by inference.
+ */
+export const getReturnTags = (func: ReturnSource, selfType?: string): LuaDocTag[] => {
+    if (func.doc && func.doc.returns.length > 0) {
+        return func.doc.returns
+    }
+
+    const funcScope = selfType ? { ...scope, selfType } : scope
+    return inferReturnTypes(func.returns, func.fallsThrough, funcScope).map(type => ({ type }))
+}
+
+const getReturnAnnotations = (func: ReturnSource, selfType?: string): string[] => {
+    return getReturnTags(func, selfType).map(ret => formatDocTag('return', ret))
+}
+
+/**
+ * Gets parameter and return annotations for a function which isn't tracked by the parser.
+ */
+const getFunctionAnnotations = (expr: ast.FunctionDeclaration): string[] => {
+    const func = {
+        parameters: getParameterList(expr.parameters),
+        parameterHints: getParameterHints(expr),
+        ...getFunctionReturns(expr.body),
+    }
+
+    return [...getParameterAnnotations(func), ...getReturnAnnotations(func)]
+}
+
+/**
+ * Gets the Rosetta definition of a member function.
+ * Definitions with a different number of parameters are ignored with a warning.
+ */
+export const getRosettaFunction = (
     cls: LuaClass,
     func: LuaFunction,
-    returnType: string,
-    isMethod: boolean,
-    out: string[]
-) => {
+    isMethod: boolean
+): RosettaLuaFunction | RosettaLuaConstructor | undefined => {
     let rosettaObj: RosettaLuaFunction | RosettaLuaConstructor | undefined
     const rosettaLuaClass = rosetta.luaClasses[cls.name]
     if (rosettaLuaClass != undefined) {
         if (func.name === 'new') {
-            // @ts-ignore
-            rosettaObj = rosettaLuaClass.conztructor
+            rosettaObj = getRosettaConstructor(rosettaLuaClass)
         } else {
             rosettaObj = isMethod ? rosettaLuaClass.methods[func.name] : rosettaLuaClass.functions[func.name]
         }
     }
 
-    const index = isMethod ? ':' : '.'
-    const name = `${cls.name}${index}${func.name}`
+    if (rosettaObj !== undefined) {
+        const mismatch = compareParameters(func, rosettaObj)
+        if (mismatch?.kind === 'parameter-count') {
+            // fall back to the lua definition rather than aborting
+            const name = `${cls.name}${isMethod ? ':' : '.'}${func.name}`
+            warnings?.push(`Rosetta's ${isMethod ? 'method' : 'function'} '${name}': ${mismatch.message}`)
+            return
+        }
+    }
 
-    out.push('\n')
+    return rosettaObj
+}
 
-    if (rosettaObj !== undefined) {
-        let appliedFlags = false
+/**
+ * Gets the return value of a Rosetta definition, which constructors don't have.
+ */
+const getRosettaReturns = (
+    rosettaObj: RosettaLuaFunction | RosettaLuaConstructor | undefined
+): RosettaLuaFunction['returns'] | undefined => {
+    return rosettaObj && 'returns' in rosettaObj ? rosettaObj.returns : undefined
+}
 
-        if (appliedFlags) {
-            out.push('\n---')
-        }
+export interface Signature {
+    parameters: LuaDocTag[]
+    returns: LuaDocTag[]
+    notes?: string
+    deprecated?: boolean
+}
 
-        const luaParamCount = func.parameters !== undefined ? func.parameters.length : 0
-        const rosettaParamCount = rosettaObj.parameters !== undefined ? rosettaObj.parameters.length : 0
-
-        if (
-            func.parameters !== undefined &&
-            rosettaObj.parameters !== undefined &&
-            luaParamCount !== rosettaParamCount
-        ) {
-            throw new Error(
-                'Rosetta\'s ' +
-                    (isMethod ? 'method' : 'function') +
-                    ` '${name}' parameter(s) doesn't match. (lua: ${luaParamCount}, rosetta: ${rosettaParamCount})`
-            )
-        }
-        if (rosettaObj.notes != undefined && rosettaObj.notes.length !== 0) {
-            out.push('\n--- ' + rosettaObj.notes)
-        }
-        if (rosettaParamCount !== 0) {
-            out.push('\n---')
-            for (let index = 0; index < rosettaParamCount; index++) {
-                const param = rosettaObj.parameters[index]
-                let s = `\n---@param ${param.name} ${param.type.trim()} ${
-                    param.notes != undefined ? param.notes : ''
-                }`
-                out.push(s)
+const buildSignature = (
+    func: LuaFunction,
+    rosettaObj: RosettaLuaFunction | RosettaLuaConstructor | undefined,
+    selfType?: string,
+    returnType?: string
+): Signature => {
+    // precedence: rosetta, then annotations in the source, then inference
+    let parameters: LuaDocTag[]
+    if (rosettaObj?.parameters) {
+        parameters = rosettaObj.parameters.map((param, i) => {
+            const tag = getParameterTag(func, func.parameters[i], selfType)
+            const type = param.type?.trim()
+
+            return {
+                name: param.name,
+                type: type || tag.type,
+                optional: type ? undefined : tag.optional,
+                notes: param.notes?.trim() || undefined,
             }
-        }
+        })
+    } else {
+        parameters = func.parameters.map(param => getParameterTag(func, param, selfType))
+    }
 
-        out.push(`\n---`)
+    let returns: LuaDocTag[]
+    const rosettaReturns = getRosettaReturns(rosettaObj)
+    if (rosettaReturns?.type?.trim()) {
+        returns = [{ type: rosettaReturns.type.trim(), notes: rosettaReturns.notes }]
+    } else if (returnType && !func.doc?.returns.length) {
+        returns = [{ type: returnType }]
+    } else {
+        returns = getReturnTags(func, selfType)
+    }
 
-        const returns = (rosettaObj as any).returns
-        if (returns != undefined) {
-            out.push(`\n---@return ${returns.type.trim()}${returns.notes != undefined ? ` ${returns.notes}` : ''}`)
-        } else {
-            out.push(`\n---@return ${returnType}`)
-        }
+    let notes: string | undefined
+    if (rosettaObj?.notes) {
+        notes = rosettaObj.notes
+    } else if (func.doc && func.doc.description.length > 0) {
+        notes = func.doc.description.join('\n')
+    }
 
-        if (rosettaObj.parameters != null) {
-            out.push(`\nfunction ${name}(${rosettaObj.parameters.map((o) => o.name).join(', ')}) end`)
-        } else {
-            out.push(`\nfunction ${name}(${func.parameters.join(', ')}) end`)
-        }
-    } else {
-        // Original rendering.
-        out.push(`\n---@return ${returnType}`)
-        out.push(`\nfunction ${name}(${func.parameters.join(', ')}) end`)
+    const deprecated = rosettaObj?.deprecated || func.doc?.tags.includes('@deprecated')
+    return { parameters, returns, notes, deprecated: deprecated || undefined }
+}
+
+/**
+ * Gets the parameters, return values and notes of a function.
+ * @param cls The class of a member function, used to look up its Rosetta definition.
+ */
+export const getSignature = (cls: LuaClass | undefined, func: LuaFunction, isMethod: boolean, returnType?: string): Signature => {
+    const rosettaObj = cls ? getRosettaFunction(cls, func, isMethod) : undefined
+    return buildSignature(func, rosettaObj, cls?.name, returnType)
+}
+
+/**
+ * Writes the annotations of a function signature.
+ * @param separate Whether to separate the parameters and return values with empty comments.
+ */
+const annotateSignature = (func: LuaFunction, signature: Signature, separate: boolean, out: string[]) => {
+    for (const line of signature.notes?.split('\n') ?? []) {
+        out.push(`\n--- ${line}`.trimEnd())
+    }
+
+    for (const line of getDocHeader(func.doc, false)) {
+        out.push(`\n${line}`)
+    }
+
+    if (signature.deprecated && !func.doc?.tags.includes('@deprecated')) {
+        out.push('\n---@deprecated')
+    }
+
+    if (separate && signature.parameters.length > 0) {
+        out.push('\n---')
+    }
+
+    for (const param of signature.parameters) {
+        out.push(`\n${formatDocTag('param', param)}`)
+    }
+
+    if (separate) {
+        out.push('\n---')
+    }
+
+    for (const ret of signature.returns) {
+        out.push(`\n${formatDocTag('return', ret)}`)
+    }
+}
+
+/**
+ * Gets the input directory a member was added from, if it isn't the one which defines its class.
+ */
+const getContributingRoot = (cls: LuaClass, member: { root?: string }): string | undefined => {
+    if (!member.root || !cls.root || member.root === cls.root) return
+    return member.root
+}
+
+const annotateHooks = (func: LuaFunction, out: string[]) => {
+    for (const file of func.hookedBy ?? []) {
+        out.push(`\n--- Hooked by ${file}`)
+    }
+}
+
+const annotateMemberFunction = (
+    cls: LuaClass,
+    func: LuaFunction,
+    returnType: string | undefined,
+    isMethod: boolean,
+    out: string[]
+) => {
+    const index = isMethod ? ':' : '.'
+    const name = `${getVariableName(cls)}${index}${func.name}`
+    const rosettaObj = getRosettaFunction(cls, func, isMethod)
+
+    out.push('\n')
+
+    const contributor = getContributingRoot(cls, func)
+    if (contributor) {
+        out.push(`\n--- From ${contributor}`)
     }
+
+    annotateHooks(func, out)
+
+    // rosetta definitions are written with their sections separated
+    const signature = buildSignature(func, rosettaObj, cls.name, returnType)
+    annotateSignature(func, signature, rosettaObj !== undefined, out)
+
+    const parameters = rosettaObj?.parameters ? signature.parameters.map(x => x.name) : func.parameters
+    out.push(`\nfunction ${name}(${parameters.join(', ')}) end`)
 }
 
 const annotateFunctionGroup = (cls: LuaClass, functions: LuaFunction[], isMethod: boolean, out: string[]) => {
@@ -289,7 +504,7 @@ const annotateFunctionGroup = (cls: LuaClass, functions: LuaFunction[], isMethod
             continue
         }
 
-        annotateMemberFunction(cls, func, 'any', isMethod, out)
+        annotateMemberFunction(cls, func, undefined, isMethod, out)
     }
 
     if (cons) {
@@ -299,11 +514,140 @@ const annotateFunctionGroup = (cls: LuaClass, functions: LuaFunction[], isMethod
     }
 }
 
-const annotateClass = (cls: LuaClass, filename: string, args: AnnotateArgs, out: string[]) => {
-    const isSimple = shouldSkipClassAnnotation(cls, filename)
+/**
+ * Gets the type and notes of a class field.
+ */
+export const getFieldTag = (cls: LuaClass, name: string, rosettaLuaClass: RosettaLuaClass | undefined): LuaDocTag => {
+    const field: LuaField | undefined = cls.fields[name]
+    const docField = cls.doc?.fields[name]
+    const rosettaLuaField = rosettaLuaClass?.fields[name]
+
+    // precedence: rosetta, then annotations in the source, then inference
+    let type = rosettaLuaField?.type?.trim()
+    if (!type) {
+        type = field?.doc?.type ?? docField?.type ?? (field ? inferFieldType(field) : 'any')
+    }
+
+    let notes: string | undefined
+    if (rosettaLuaField?.notes != undefined && rosettaLuaField.notes.length !== 0) {
+        notes = rosettaLuaField.notes.trim()
+    } else if (field?.doc && field.doc.description.length > 0) {
+        notes = field.doc.description.join(' ').trim()
+    } else {
+        notes = docField?.notes
+    }
+
+    return { name, type, notes }
+}
+
+const annotateField = (cls: LuaClass, name: string, rosettaLuaClass: RosettaLuaClass | undefined, out: string[]) => {
+    const { type, notes } = getFieldTag(cls, name, rosettaLuaClass)
+
+    const contributor = cls.fields[name] ? getContributingRoot(cls, cls.fields[name]) : undefined
+    const suffix = contributor ? ` (from ${contributor})` : ''
+
+    out.push(`\n---@field ${name} ${type}${notes ? ` ${notes}` : ''}${suffix}`)
+}
+
+/**
+ * Gets the names of the fields of a class, including fields only described by its annotations.
+ */
+export const getFieldNames = (cls: LuaClass): string[] => {
+    const keys = Object.keys(cls.fields)
+    for (const key of Object.keys(cls.doc?.fields ?? {})) {
+        if (!cls.fields[key]) {
+            keys.push(key)
+        }
+    }
+
+    return keys.sort((a, b) => a.localeCompare(b))
+}
+
+/**
+ * Gets the type of a value assigned to a class.
+ */
+export const getStaticType = (info: LuaAssignment): string | undefined => {
+    let type = info.doc?.type
+    if (!type && info.init.type !== 'FunctionDeclaration') {
+        type = inferExpressionType(info.init, scope)
+    }
+
+    return type && type !== 'nil' ? type : undefined
+}
+
+/**
+ * Checks whether a class is annotated as a table of constants.
+ * Members added by other files make it a class again.
+ */
+export const isEnumClass = (cls: LuaClass): boolean => {
+    if (!cls.enum || !cls.init) return false
+    if (cls.functions.length > 0 || cls.methods.length > 0 || cls.statics.length > 0) return false
+    return Object.values(cls.fields).every(field => field.inInitializer)
+}
+
+/**
+ * Gets the annotation for a table of constants.
+ * Enums are annotated with their values, and aliases with the string literals of their keys.
+ */
+const getEnumAnnotation = (name: string, kind: LuaEnumKind, init: ast.Expression): string => {
+    if (kind === 'enum' || init.type !== 'TableConstructorExpression') {
+        return `---@enum ${name}`
+    }
+
+    const keys = init.fields.map(field => field.type === 'TableKeyString' ? `"${field.key.name}"` : undefined)
+    return `---@alias ${name} ${keys.filter(x => x).join('|')}`
+}
+
+const annotateEnum = (cls: LuaClass, out: string[]) => {
+    for (const line of getDocHeader(cls.doc)) {
+        out.push(`\n${line}`)
+    }
+
+    out.push(`\n${getEnumAnnotation(cls.name, cls.enum!, cls.init!)}`)
+    out.push(`\n${cls.localName ? 'local ' : ''}${getVariableName(cls)} = ${rewriteExpression(cls.init)}`)
+    out.push('\n')
+}
+
+/**
+ * Gets the variable a class is assigned to, which differs from its name for local module tables.
+ */
+export const getVariableName = (cls: LuaClass): string => cls.localName ?? cls.name
+
+/**
+ * Checks whether a class should be annotated with its base class.
+ * Generated instance classes only inherit from bases that are known to exist.
+ */
+export const hasKnownBase = (cls: LuaClass): boolean => {
+    return !!cls.base && (!cls.generated || !!scope.resolveClass(cls.base))
+}
+
+/**
+ * Gets the mixins of a class which are known to exist, like the bases of generated classes.
+ */
+export const getKnownMixins = (cls: LuaClass): string[] => {
+    return cls.mixins?.filter(x => !!scope.resolveClass(x)) ?? []
+}
+
+/**
+ * @param isParent Whether the class contains nested classes, which need it to be annotated as a class.
+ */
+const annotateClass = (
+    cls: LuaClass,
+    filename: string,
+    args: Pick<AnnotateArgs, 'strict-fields'>,
+    isParent: boolean,
+    out: string[]
+) => {
+    const isSimple = shouldSkipClassAnnotation(cls, filename) && !isParent
 
     const rosettaLuaClass = rosetta.luaClasses[cls.name]
 
+    // documented classes keep their fields
+    if (!rosettaLuaClass && isEnumClass(cls)) {
+        annotateEnum(cls, out)
+        return
+    }
+
     if (!isSimple) {
         if (rosettaLuaClass != undefined) {
             let appliedFlags = false
@@ -319,46 +663,44 @@ const annotateClass = (cls: LuaClass, filename: string, args: AnnotateArgs, out:
                 out.push(`\n--- ${rosettaLuaClass.notes}`)
             }
         }
+
+        const hasNotes = rosettaLuaClass?.notes != undefined && rosettaLuaClass.notes.length !== 0
+        for (const line of getDocHeader(cls.doc, !hasNotes)) {
+            if (line === '---@deprecated' && rosettaLuaClass?.deprecated) continue
+            out.push(`\n${line}`)
+        }
+
         out.push(`\n---@class ${cls.name}`)
     } else {
         out.push('\n')
     }
 
+    const hasBase = hasKnownBase(cls)
+
     let initializer: string | undefined
-    if (cls.base && !cls.generated && !isSimple) {
-        out.push(` : ${cls.base}`)
+    let base: string | undefined
+    if (hasBase) {
+        base = cls.base
     } else if (!cls.generated) {
+        base = cls.doc?.base
         initializer = rewriteExpression(cls.init)
     }
 
-    let keys = Object.keys(cls.fields)
-    keys.sort((a, b) => a.localeCompare(b))
+    // mixins are annotated as additional bases
+    const bases = [...new Set([base, ...getKnownMixins(cls)].filter((x): x is string => !!x))]
+    if (bases.length > 0 && !isSimple) {
+        out.push(` : ${bases.join(', ')}`)
+    }
+
+    const keys = getFieldNames(cls)
 
     let fieldCount = 0
     for (const key of keys) {
         const field = cls.fields[key]
-        if (initializer && field.inInitializer) continue
+        if (initializer && field?.inInitializer) continue
         fieldCount++
 
-        if (rosettaLuaClass != undefined) {
-            const rosettaLuaField = rosettaLuaClass.fields[field.name]
-            if (rosettaLuaField != undefined) {
-                out.push(
-                    `\n---@field ${field.name} ${
-                        rosettaLuaField.type != undefined ? rosettaLuaField.type.trim() : 'any'
-                    } ${
-                        rosettaLuaField.notes != undefined && rosettaLuaField.notes.length !== 0
-                            ? rosettaLuaField.notes.trim()
-                            : ''
-                    }`
-                )
-            } else {
-                out.push(`\n---@field ${field.name} any`)
-            }
-        } else {
-            /* (Legacy Render) */
-            out.push(`\n---@field ${field.name} any`)
-        }
+        annotateField(cls, key, rosettaLuaClass, out)
     }
 
     if (fieldCount > 0 && !args['strict-fields']) {
@@ -371,16 +713,17 @@ const annotateClass = (cls: LuaClass, filename: string, args: AnnotateArgs, out:
     }
 
     // 'fake' classes should be local
-    if (cls.generated) {
+    if (cls.generated || cls.localName) {
         out.push('local ')
     }
 
+    const variable = getVariableName(cls)
     if (cls.base && !cls.generated) {
-        out.push(`${cls.name} = ${cls.base}:derive("${cls.name}")`)
+        out.push(`${variable} = ${cls.base}:derive("${cls.deriveName ?? cls.name}")`)
     } else if (initializer) {
-        out.push(`${cls.name} = ${initializer}`)
+        out.push(`${variable} = ${initializer}`)
     } else {
-        out.push(`${cls.name} = {}`)
+        out.push(`${variable} = {}`)
     }
 
     if (cls.statics.length > 0) {
@@ -391,6 +734,17 @@ const annotateClass = (cls: LuaClass, filename: string, args: AnnotateArgs, out:
             const init = rewriteExpression(info.init)
             if (!init) continue
 
+            for (const line of getDocHeader(info.doc)) {
+                out.push(`\n${line}`)
+            }
+
+            const type = getStaticType(info)
+            if (info.enum && /^[\w.]+$/.test(variable)) {
+                out.push(`\n${getEnumAnnotation(variable, info.enum, info.init)}`)
+            } else if (type) {
+                out.push(`\n---@type ${type}`)
+            }
+
             out.push(`\n${variable} = ${init}`)
         }
     }
@@ -402,24 +756,98 @@ const annotateClass = (cls: LuaClass, filename: string, args: AnnotateArgs, out:
 }
 
 const annotateFunction = (func: LuaFunction, out: string[]) => {
-    out.push(`\n---@return any\nfunction ${func.name}(${func.parameters.join(', ')}) end`)
+    annotateHooks(func, out)
+    annotateSignature(func, getSignature(undefined, func, false), false, out)
+    out.push(`\nfunction ${func.name}(${func.parameters.join(', ')}) end`)
 }
 
-export const annotate = (insRosetta: Rosetta, result: LuaSourceInfo, filename: string, args: AnnotateArgs): string => {
+/**
+ * Gets the names of the classes outside the file that were looked up by the last call to annotate.
+ */
+export const getReferencedClasses = (): string[] => [...referencedClasses].sort()
+
+/**
+ * Sets up the state used to annotate a file.
+ * Must be called before the exported helpers are used.
+ */
+export const beginAnnotation = (
+    insRosetta: Rosetta,
+    result: LuaSourceInfo,
+    symbols?: SymbolTable,
+    insWarnings?: string[]
+) => {
     rosetta = insRosetta
+    warnings = insWarnings
+    referencedClasses = new Set()
+    scope = {
+        resolveClass: (name) => {
+            if (result.classes[name]) return result.classes[name]
+
+            // local module tables are keyed by their local name
+            const moduleClass = Object.values(result.classes).find(x => x.localName && x.name === name)
+            if (moduleClass) return moduleClass
+
+            referencedClasses.add(name)
+            return symbols?.getClass(name)
+        },
+        resolveModule: (requirePath) => {
+            const type = symbols?.getModuleType(requirePath)
+            if (type && !Object.values(result.classes).some(x => x.name === type)) {
+                referencedClasses.add(type)
+            }
+
+            return type
+        },
+    }
+}
+
+/**
+ * Finds a class by name from the file being annotated, or from the project.
+ */
+export const resolveClass = (name: string): LuaClass | undefined => scope.resolveClass(name)
+
+/**
+ * Infers the type of an expression in the file being annotated.
+ */
+export const inferType = (expr: ast.Expression): string | undefined => inferExpressionType(expr, scope)
+
+export const annotate = (
+    insRosetta: Rosetta,
+    result: LuaSourceInfo,
+    filename: string,
+    args: Pick<AnnotateArgs, 'strict-fields'>,
+    symbols?: SymbolTable,
+    insWarnings?: string[]
+): string => {
+    beginAnnotation(insRosetta, result, symbols, insWarnings)
+
     const out = [PREAMBLE]
 
     let writtenLocals: Set<string> = new Set()
     for (const local of Object.values(result.locals)) {
         if (!local.referenced) continue
 
+        // written as a class instead
+        if (result.classes[local.name]?.localName === local.name) continue
+
         const expr = rewriteExpression(local.init)
         if (!expr) continue
 
         writtenLocals.add(local.name)
 
         if (local.init.type === 'FunctionDeclaration') {
-            out.push(`\n---@return any`)
+            for (const line of getFunctionAnnotations(local.init)) {
+                out.push(`\n${line}`)
+            }
+        } else {
+            const type = inferExpressionType(local.init, scope)
+            const requirePath = getRequiredModule(local.init)
+            if (type && type !== 'nil') {
+                out.push(`\n---@type ${type}`)
+            } else if (requirePath !== undefined) {
+                // leave it to the language server to find the module
+                out.push(`\n---@module ${JSON.stringify(requirePath)}`)
+            }
         }
 
         out.push(`\nlocal ${local.name} = ${expr}`)
@@ -444,12 +872,13 @@ export const annotate = (insRosetta: Rosetta, result: LuaSourceInfo, filename: s
     }
 
     const classes = Object.values(result.classes)
+    const parents = getParentNames([...classes, ...symbols?.getClasses() ?? []])
     for (const cls of classes) {
-        annotateClass(cls, filename, args, out)
+        annotateClass(symbols?.getDefinition(cls) ?? cls, filename, args, parents.has(cls.name), out)
     }
 
     for (const func of result.functions) {
-        annotateFunction(func, out)
+        annotateFunction(symbols?.getFunctionDefinition(func) ?? func, out)
     }
 
     if (result.moduleReturns.length > 0) {
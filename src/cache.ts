@@ -0,0 +1,215 @@
+import fs from 'fs'
+import path from 'path'
+import crypto from 'crypto'
+import YAML from 'yaml'
+
+import { VERSION } from './version'
+import { AnnotateArgs } from './types'
+import { LuaSourceInfo } from './parser/types'
+import { getDefinedNames } from './symbols'
+import { findRosettaFiles, getRosettaDataNames } from './rosetta'
+
+const MANIFEST_FILE = 'manifest.json'
+
+// options which change the generated annotations
+const CACHED_OPTIONS: (keyof AnnotateArgs)[] = ['strict-fields', 'project', 'format']
+
+export interface CacheEntry {
+    /** Hash of the source content. */
+    hash: string
+
+    /** Names of the classes and functions the file defines or extends, and the bases of its classes. */
+    names: string[]
+
+    /** Names of classes outside the file that were looked up while annotating it. */
+    references: string[]
+
+    /** Dependency key the output was generated with. */
+    key: string
+}
+
+interface CacheManifest {
+    key: string
+    files: { [file: string]: CacheEntry }
+}
+
+/**
+ * Hashes of the Rosetta definitions for each class and function.
+ */
+export interface RosettaIndex {
+    hashes: Map<string, string[]>
+
+    /** Hash of the definition files that couldn't be read, which could describe anything. */
+    key: string
+}
+
+export const hashContent = (...parts: (string | Buffer)[]): string => {
+    const hash = crypto.createHash('sha1')
+    for (const part of parts) {
+        hash.update(part)
+        hash.update('\0')
+    }
+
+    return hash.digest('hex')
+}
+
+/**
+ * Gets the names an annotated file depends on in its own right.
+ */
+export const getCacheNames = (info: LuaSourceInfo): string[] => {
+    const names = new Set(getDefinedNames(info))
+    for (const cls of Object.values(info.classes)) {
+        if (cls.base) {
+            names.add(cls.base)
+        }
+    }
+
+    return [...names].sort()
+}
+
+let toolHash: string | undefined
+
+/**
+ * Gets a hash of the running tool, so that any change to it invalidates the cache.
+ * The tool is bundled into a single file, which includes every module.
+ */
+const getToolHash = (): string => {
+    if (toolHash) return toolHash
+
+    try {
+        toolHash = hashContent(fs.readFileSync(__filename))
+    } catch (e) {
+        toolHash = VERSION
+    }
+
+    return toolHash
+}
+
+/**
+ * Gets the key which invalidates every cached file when it changes.
+ */
+export const getCacheKey = (options: AnnotateArgs, kahlua: Buffer, index: RosettaIndex): string => {
+    const values = CACHED_OPTIONS.map(x => options[x] ?? null)
+    return hashContent(VERSION, getToolHash(), JSON.stringify(values), kahlua, index.key)
+}
+
+export const loadRosettaIndex = async (dirPath: string): Promise<RosettaIndex> => {
+    const hashes = new Map<string, string[]>()
+    const unknown: string[] = []
+
+    for (const fullPath of await findRosettaFiles(dirPath)) {
+        let content: string
+        let names: string[]
+        try {
+            content = await fs.promises.readFile(fullPath, 'utf-8')
+            names = getRosettaDataNames(YAML.parse(content))
+        } catch (e) {
+            unknown.push(fullPath)
+            continue
+        }
+
+        const hash = hashContent(content)
+        for (const name of names) {
+            if (!hashes.has(name)) {
+                hashes.set(name, [])
+            }
+
+            hashes.get(name)!.push(hash)
+        }
+    }
+
+    return { hashes, key: hashContent(...unknown) }
+}
+
+/**
+ * Gets the key for the inputs an annotated file was generated from.
+ * @param definers The files which define or extend each name, in project mode.
+ */
+export const getDependencyKey = (
+    hash: string,
+    names: string[],
+    references: string[],
+    index: RosettaIndex,
+    definers?: Map<string, string[]>
+): string => {
+    const parts = [hash]
+
+    for (const name of names) {
+        parts.push(name, ...index.hashes.get(name) ?? [])
+    }
+
+    if (definers) {
+        for (const name of [...new Set([...names, ...references])].sort()) {
+            parts.push(name, ...definers.get(name) ?? [])
+        }
+    }
+
+    return hashContent(...parts)
+}
+
+/**
+ * Persistent record of the files annotated by previous runs.
+ * Deleting the cache directory only causes every file to be annotated again.
+ */
+export class AnnotationCache {
+    private manifestPath: string
+    private manifest: CacheManifest
+
+    private constructor(manifestPath: string, manifest: CacheManifest) {
+        this.manifestPath = manifestPath
+        this.manifest = manifest
+    }
+
+    /**
+     * Opens a cache directory.
+     * Cached entries are discarded if they were created with a different key.
+     */
+    static async open(dirPath: string, key: string): Promise<AnnotationCache> {
+        const manifestPath = path.join(dirPath, MANIFEST_FILE)
+
+        let manifest: CacheManifest | undefined
+        try {
+            manifest = JSON.parse(await fs.promises.readFile(manifestPath, 'utf-8'))
+        } catch (e) {
+            // missing or unreadable caches are rebuilt
+        }
+
+        if (!manifest || manifest.key !== key || typeof manifest.files !== 'object') {
+            manifest = { key, files: {} }
+        }
+
+        return new AnnotationCache(manifestPath, manifest)
+    }
+
+    get(file: string): CacheEntry | undefined {
+        return this.manifest.files[file]
+    }
+
+    set(file: string, entry: CacheEntry) {
+        this.manifest.files[file] = entry
+    }
+
+    delete(file: string) {
+        delete this.manifest.files[file]
+    }
+
+    /**
+     * Removes the entries of files which no longer exist.
+     */
+    prune(files: Set<string>) {
+        for (const file of Object.keys(this.manifest.files)) {
+            if (!files.has(file)) {
+                this.delete(file)
+            }
+        }
+    }
+
+    async save(errors: string[]) {
+        try {
+            await fs.promises.mkdir(path.dirname(this.manifestPath), { recursive: true })
+            await fs.promises.writeFile(this.manifestPath, JSON.stringify(this.manifest), { flag: 'w' })
+        } catch (e) {
+            errors.push(`Failed to write cache: ${this.manifestPath}`)
+        }
+    }
+}
@@ -0,0 +1,68 @@
+import fs from 'fs'
+import path from 'path'
+
+import { unifiedDiff } from './diff'
+import { findFiles } from './files'
+
+/**
+ * Compares generated annotations with the files in the output directory.
+ * Prints a unified diff for each changed file and lists missing and extra files.
+ * @param extension The extension of generated files, used to find extra files.
+ * @returns Whether the output directory is up to date.
+ */
+export const checkOutputs = async (
+    outDir: string,
+    outputs: Map<string, string>,
+    extension: string,
+    errors: string[]
+): Promise<boolean> => {
+    const changed: string[] = []
+    const missing: string[] = []
+
+    for (const outputPath of [...outputs.keys()].sort()) {
+        const relativePath = path.relative(outDir, outputPath)
+
+        let existing: string
+        try {
+            existing = await fs.promises.readFile(outputPath, 'utf-8')
+        } catch (e) {
+            if (!fs.existsSync(outputPath)) {
+                missing.push(relativePath)
+            } else {
+                errors.push(`Failed to read file: ${outputPath}`)
+            }
+
+            continue
+        }
+
+        const diff = unifiedDiff(existing, outputs.get(outputPath)!, `a/${relativePath}`, `b/${relativePath}`)
+        if (diff) {
+            changed.push(relativePath)
+            console.log(diff)
+        }
+    }
+
+    const existingFiles = fs.existsSync(outDir) ? await findFiles(outDir, extension, errors) : []
+    const extra = existingFiles
+        .filter(x => !outputs.has(x))
+        .map(x => path.relative(outDir, x))
+
+    if (missing.length > 0) {
+        console.log('\nMissing files:')
+        missing.forEach(x => console.log(`    ${x}`))
+    }
+
+    if (extra.length > 0) {
+        console.log('\nExtra files:')
+        extra.forEach(x => console.log(`    ${x}`))
+    }
+
+    const differences = changed.length + missing.length + extra.length
+    if (differences === 0) {
+        console.log('Annotations are up to date.')
+    } else {
+        console.log(`\n${changed.length} changed, ${missing.length} missing, ${extra.length} extra file(s).`)
+    }
+
+    return differences === 0
+}
@@ -0,0 +1,486 @@
+import { LuaClass, LuaDocTag, LuaFunction, LuaSourceInfo } from './parser/types'
+import { getStaticName } from './parser/utils'
+import { AnnotateArgs } from './types'
+import { SymbolTable } from './symbols'
+import {
+    beginAnnotation,
+    getFieldNames,
+    getFieldTag,
+    getKnownMixins,
+    getParentNames,
+    getSignature,
+    getStaticType,
+    hasKnownBase,
+    inferType,
+    resolveClass,
+    shouldSkipClassAnnotation,
+    Signature,
+} from './annotator'
+
+import { Rosetta } from 'pz-rosetta-ts'
+
+const PREAMBLE = '/// <reference types="@typescript-to-lua/language-extensions" />\n'
+
+const RESERVED_WORDS = new Set([
+    'break', 'case', 'catch', 'class', 'const', 'continue', 'debugger', 'default', 'delete', 'do',
+    'else', 'enum', 'export', 'extends', 'false', 'finally', 'for', 'function', 'if', 'implements',
+    'import', 'in', 'instanceof', 'interface', 'let', 'new', 'null', 'package', 'private', 'protected',
+    'public', 'return', 'static', 'super', 'switch', 'this', 'throw', 'true', 'try', 'typeof', 'var',
+    'void', 'while', 'with', 'yield',
+])
+
+const PRIMITIVE_TYPES: { [type: string]: string } = {
+    nil: 'undefined',
+    void: 'void',
+    any: 'any',
+    unknown: 'unknown',
+    boolean: 'boolean',
+    number: 'number',
+    integer: 'number',
+    string: 'string',
+    table: 'LuaTable',
+    function: '((...args: any[]) => any)',
+    userdata: 'any',
+    lightuserdata: 'any',
+    thread: 'LuaThread',
+}
+
+/**
+ * Splits a type on a separator, ignoring separators inside brackets and strings.
+ */
+const splitTopLevel = (text: string, separator: string): string[] => {
+    const parts: string[] = []
+
+    let depth = 0
+    let quote: string | undefined
+    let start = 0
+    for (let i = 0; i < text.length; i++) {
+        const c = text[i]
+        if (quote) {
+            if (c === quote) quote = undefined
+        } else if (c === '"' || c === "'") {
+            quote = c
+        } else if ('(<{['.includes(c)) {
+            depth++
+        } else if (')>}]'.includes(c)) {
+            depth--
+        } else if (depth === 0 && c === separator) {
+            parts.push(text.slice(start, i).trim())
+            start = i + 1
+        }
+    }
+
+    parts.push(text.slice(start).trim())
+    return parts
+}
+
+/**
+ * Finds the index of the bracket closing the one at the start of a string.
+ */
+const findClosingBracket = (text: string, start: number): number => {
+    let depth = 0
+    for (let i = start; i < text.length; i++) {
+        if ('(<{['.includes(text[i])) {
+            depth++
+        } else if (')>}]'.includes(text[i])) {
+            depth--
+            if (depth === 0) return i
+        }
+    }
+
+    return -1
+}
+
+const convertParameter = (param: string): string => {
+    const colon = param.indexOf(':')
+    const name = (colon === -1 ? param : param.slice(0, colon)).trim()
+    const type = colon === -1 ? 'any' : toTypeScriptType(param.slice(colon + 1))
+
+    if (name === '...') {
+        return `...args: ${wrapType(type)}[]`
+    }
+
+    const optional = name.endsWith('?')
+    return `${getParameterName(optional ? name.slice(0, -1) : name)}${optional ? '?' : ''}: ${type}`
+}
+
+const convertFunctionType = (text: string): string => {
+    const close = findClosingBracket(text, 3)
+    const params = text.slice(4, close).trim()
+    const rest = text.slice(close + 1).trim()
+
+    const parameters = params ? splitTopLevel(params, ',').map(convertParameter) : []
+    const returns = rest.startsWith(':') ? splitTopLevel(rest.slice(1), ',').map(toTypeScriptType) : []
+
+    return `((this: void${parameters.map(x => `, ${x}`).join('')}) => ${getReturnType(returns)})`
+}
+
+const convertSingleType = (text: string): string => {
+    text = text.trim()
+
+    if (text.endsWith('?')) {
+        return `${convertSingleType(text.slice(0, -1))} | undefined`
+    }
+
+    if (text.endsWith('[]')) {
+        return `${wrapType(toTypeScriptType(text.slice(0, -2)))}[]`
+    }
+
+    if (text.startsWith('(') && findClosingBracket(text, 0) === text.length - 1) {
+        return `(${toTypeScriptType(text.slice(1, -1))})`
+    }
+
+    if (text.startsWith('fun(')) {
+        return convertFunctionType(text)
+    }
+
+    const generic = text.match(/^table\s*<(.*)>$/)
+    if (generic) {
+        return `LuaTable<${splitTopLevel(generic[1], ',').map(toTypeScriptType).join(', ')}>`
+    }
+
+    if (text.startsWith("'") && text.endsWith("'")) {
+        return JSON.stringify(text.slice(1, -1))
+    }
+
+    return PRIMITIVE_TYPES[text] ?? text
+}
+
+/**
+ * Wraps a type in parentheses unless it's a single name.
+ */
+const wrapType = (type: string): string => {
+    return /^[\w.$]+(<.*>)?(\[\])*$/.test(type) ? type : `(${type})`
+}
+
+/**
+ * Converts a LuaLS type to a TypeScript type.
+ */
+export const toTypeScriptType = (type: string): string => {
+    const types = splitTopLevel(type.trim(), '|').map(convertSingleType)
+    return [...new Set(types)].join(' | ')
+}
+
+const getReturnType = (types: string[]): string => {
+    if (types.length === 0) return 'void'
+    if (types.length === 1) return types[0]
+
+    return `LuaMultiReturn<[${types.join(', ')}]>`
+}
+
+const getParameterName = (name: string): string => {
+    return RESERVED_WORDS.has(name) ? `_${name}` : name
+}
+
+const getPropertyName = (name: string): string => {
+    return /^[A-Za-z_$][\w$]*$/.test(name) ? name : JSON.stringify(name)
+}
+
+const formatDocComment = (lines: string[], indent: string, out: string[]) => {
+    lines = lines.map(x => x.replace(/\*\//g, '*\\/'))
+    if (lines.length === 0) return
+
+    if (lines.length === 1) {
+        out.push(`\n${indent}/** ${lines[0]} */`)
+        return
+    }
+
+    out.push(`\n${indent}/**`)
+    for (const line of lines) {
+        out.push(`\n${indent} * ${line}`.trimEnd())
+    }
+
+    out.push(`\n${indent} */`)
+}
+
+const formatSignature = (name: string, signature: Signature, noSelf: boolean): string => {
+    const parameters = signature.parameters.map(param => {
+        const type = toTypeScriptType(param.type)
+        if (param.name === '...') {
+            return `...args: ${wrapType(type)}[]`
+        }
+
+        return `${getParameterName(param.name!)}${param.optional ? '?' : ''}: ${type}`
+    })
+
+    if (noSelf) {
+        parameters.unshift('this: void')
+    }
+
+    const returns = getReturnType(signature.returns.map(x => toTypeScriptType(x.type)))
+    return `${name}(${parameters.join(', ')}): ${returns};`
+}
+
+const getSignatureDoc = (signature: Signature): string[] => {
+    const lines = signature.notes ? signature.notes.split('\n') : []
+    for (const param of signature.parameters) {
+        if (!param.notes) continue
+        lines.push(`@param ${getParameterName(param.name!)} ${param.notes}`)
+    }
+
+    const notes = signature.returns.filter(x => x.notes).map(x => x.notes)
+    if (notes.length > 0) {
+        lines.push(`@returns ${notes.join(', ')}`)
+    }
+
+    if (signature.deprecated) {
+        lines.push('@deprecated')
+    }
+
+    return lines
+}
+
+const declareMember = (
+    cls: LuaClass,
+    func: LuaFunction,
+    isMethod: boolean,
+    noSelf: boolean,
+    returnType: string | undefined,
+    isInterface: boolean,
+    out: string[]
+) => {
+    const signature = getSignature(cls, func, isMethod, returnType)
+    formatDocComment(getSignatureDoc(signature), '    ', out)
+
+    // constructors are called on the class table
+    const isStatic = !isInterface && (!isMethod || func.name === 'new')
+
+    // a method named new would be a construct signature
+    const name = isInterface && func.name === 'new' ? JSON.stringify(func.name) : getPropertyName(func.name)
+
+    out.push(`\n    ${isStatic ? 'static ' : ''}${formatSignature(name, signature, !isMethod && !noSelf)}`)
+}
+
+const getConstructorType = (cls: LuaClass, isMethod: boolean): string => {
+    return cls.constructorType ?? (isMethod ? cls.name : undefined) ?? 'any'
+}
+
+/**
+ * Gets the constructors of the classes a class derives from, nearest first.
+ */
+const getBaseConstructors = (cls: LuaClass): [LuaClass, LuaFunction, boolean][] => {
+    const constructors: [LuaClass, LuaFunction, boolean][] = []
+
+    const seen = new Set([cls.name])
+    let base = cls.base && hasKnownBase(cls) ? resolveClass(cls.base) : undefined
+    while (base && !base.generated && !seen.has(base.name)) {
+        seen.add(base.name)
+
+        const cons = base.functions.find(x => x.name === 'new')
+        if (cons) {
+            constructors.push([base, cons, false])
+        } else {
+            const method = base.methods.find(x => x.name === 'new')
+            if (method) constructors.push([base, method, true])
+        }
+
+        base = base.base ? resolveClass(base.base) : undefined
+    }
+
+    return constructors
+}
+
+/**
+ * @param isParent Whether the class contains nested classes, which are declared in a namespace named after it.
+ */
+const declareClass = (
+    cls: LuaClass,
+    filename: string,
+    args: AnnotateArgs,
+    rosetta: Rosetta,
+    isParent: boolean,
+    out: string[]
+) => {
+    if (cls.noAnnotation) return
+
+    // nested classes are declared in the namespace of their parent
+    const dot = cls.name.lastIndexOf('.')
+    if (dot !== -1) {
+        const inner: string[] = []
+        declareClass({ ...cls, name: cls.name.slice(dot + 1) }, filename, args, rosetta, isParent, inner)
+        if (inner.length === 0) return
+
+        const body = inner.join('').replace(/\ndeclare /g, '\n').replace(/\n(?=.)/g, '\n    ')
+        out.push(`\ndeclare namespace ${cls.name.slice(0, dot)} {${body.trimEnd()}\n}\n`)
+        return
+    }
+
+    const rosettaLuaClass = rosetta.luaClasses[cls.name]
+    if (shouldSkipClassAnnotation(cls, filename)) {
+        // a variable can't be merged with the namespace, which already declares the table
+        if (!isParent) {
+            out.push(`\ndeclare let ${cls.name}: LuaTable\n`)
+        }
+
+        return
+    }
+
+    const lines: string[] = []
+    if (rosettaLuaClass?.notes) {
+        lines.push(...rosettaLuaClass.notes.split('\n'))
+    } else if (cls.doc) {
+        lines.push(...cls.doc.description)
+    }
+
+    if (rosettaLuaClass?.deprecated || cls.doc?.tags.includes('@deprecated')) {
+        lines.push('@deprecated')
+    }
+
+    // dot functions don't take self; mark the whole class when it has no methods
+    const noSelf = !cls.generated && cls.methods.length === 0 && cls.functions.length > 0
+    if (noSelf) {
+        lines.push('@noSelf')
+    }
+
+    formatDocComment(lines, '', out)
+
+    let base: string | undefined
+    if (hasKnownBase(cls)) {
+        base = cls.base
+    } else if (!cls.generated) {
+        base = cls.doc?.base
+    }
+
+    // generated classes only exist as types, and module tables are only available through require
+    const isModule = !!cls.localName
+    const keyword = cls.generated || isModule ? 'interface' : 'class'
+    out.push(`\ndeclare ${keyword} ${cls.name}${base ? ` extends ${toTypeScriptType(base)}` : ''} {`)
+
+    const declareField = (name: string, modifier: string) => {
+        const tag = getFieldTag(cls, name, rosettaLuaClass)
+        let type = toTypeScriptType(tag.type)
+
+        const optional = type.endsWith(' | undefined')
+        if (optional) {
+            type = type.slice(0, -' | undefined'.length)
+        }
+
+        formatDocComment(tag.notes ? [tag.notes] : [], '    ', out)
+        out.push(`\n    ${modifier}${getPropertyName(name)}${optional ? '?' : ''}: ${type};`)
+    }
+
+    // fields of the table constructor belong to the class table, like other assignments to it
+    const fieldNames = getFieldNames(cls)
+    const isStatic = (name: string) => !cls.generated && !isModule && !!cls.fields[name]?.inInitializer
+    const instanceFields = fieldNames.filter(x => !isStatic(x))
+
+    for (const name of instanceFields) {
+        declareField(name, '')
+    }
+
+    if (instanceFields.length > 0 && !args['strict-fields']) {
+        out.push('\n    [key: string]: any;')
+    }
+
+    for (const name of fieldNames.filter(isStatic)) {
+        declareField(name, 'static ')
+    }
+
+    if (!cls.generated) {
+        for (const info of cls.statics) {
+            // only direct members of the class
+            const name = getStaticName(info)
+            if (!name) continue
+
+            const type = getStaticType(info)
+            formatDocComment(info.doc?.description ?? [], '    ', out)
+            out.push(`\n    ${isModule ? '' : 'static '}${getPropertyName(name)}: ${type ? toTypeScriptType(type) : 'any'};`)
+        }
+    }
+
+    const groups: [LuaFunction[], boolean][] = [[cls.functions, false], [cls.methods, true]]
+    for (const [functions, isMethod] of groups) {
+        let cons: LuaFunction | undefined
+        for (const func of [...functions].sort((a, b) => a.name.localeCompare(b.name))) {
+            if (func.name === 'new') {
+                // move constructor to bottom
+                cons = func
+                continue
+            }
+
+            declareMember(cls, func, isMethod, noSelf, undefined, isModule, out)
+        }
+
+        if (!cons) continue
+        declareMember(cls, cons, isMethod, noSelf, getConstructorType(cls, isMethod), isModule, out)
+        if (isModule) continue
+
+        // the static side must stay assignable to the bases', so their constructors are kept as overloads
+        for (const [baseCls, baseCons, baseIsMethod] of getBaseConstructors(cls)) {
+            declareMember(baseCls, baseCons, baseIsMethod, noSelf, getConstructorType(baseCls, baseIsMethod), false, out)
+        }
+    }
+
+    out.push('\n}\n')
+
+    // mixins can't be extended by the class, so they're merged into its type
+    const mixins = getKnownMixins(cls).filter(x => x !== base)
+    if (mixins.length > 0) {
+        out.push(`\ndeclare interface ${cls.name} extends ${mixins.map(toTypeScriptType).join(', ')} {}\n`)
+    }
+}
+
+const declareFunction = (func: LuaFunction, out: string[]) => {
+    const signature = getSignature(undefined, func, false)
+
+    formatDocComment(getSignatureDoc(signature), '', out)
+    out.push(`\ndeclare function ${formatSignature(func.name, signature, true)}`)
+}
+
+const declareModule = (result: LuaSourceInfo, moduleName: string, out: string[]) => {
+    if (result.moduleReturns.length !== 1) return
+
+    const expr = result.moduleReturns[0]
+
+    // module tables are declared as the type of the table
+    let type: string
+    const cls = expr.type === 'Identifier' ? result.classes[expr.name] : undefined
+    if (cls) {
+        type = cls.localName ? cls.name : `typeof ${cls.name}`
+    } else {
+        type = toTypeScriptType(inferType(expr) ?? 'any')
+    }
+
+    out.push(`\ndeclare module ${JSON.stringify(moduleName)} {`)
+    out.push(`\n    const value: ${type}`)
+    out.push('\n    export = value')
+    out.push('\n}\n')
+}
+
+/**
+ * Creates TypeScript declarations for a file, for use with TypeScriptToLua.
+ * @param moduleName The path used to require the file.
+ */
+export const declare = (
+    rosetta: Rosetta,
+    result: LuaSourceInfo,
+    filename: string,
+    moduleName: string,
+    args: AnnotateArgs,
+    symbols?: SymbolTable,
+    warnings?: string[]
+): string => {
+    beginAnnotation(rosetta, result, symbols, warnings)
+
+    const out = [PREAMBLE]
+    const parents = getParentNames([...Object.values(result.classes), ...symbols?.getClasses() ?? []])
+
+    for (const cls of Object.values(result.classes)) {
+        // classes defined in multiple files are only declared by their owner, since declarations can't repeat
+        // module tables belong to their file, and their interfaces merge with any class of the same name
+        if (symbols && !cls.localName && !symbols.isOwnedDefinition(cls)) continue
+        declareClass(symbols?.getDefinition(cls) ?? cls, filename, args, rosetta, parents.has(cls.name), out)
+    }
+
+    for (const func of result.functions) {
+        declareFunction(func, out)
+    }
+
+    if (result.functions.length > 0) {
+        out.push('\n')
+    }
+
+    declareModule(result, moduleName, out)
+
+    return out.join('').trimEnd() + '\n'
+}
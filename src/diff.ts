@@ -0,0 +1,167 @@
+type DiffOp = [' ' | '-' | '+', string]
+
+const CONTEXT_LINES = 3
+
+// edit distance beyond which changed regions are shown as a whole
+const MAX_EDIT_DISTANCE = 2000
+
+/**
+ * Finds the shortest edit script between two lists of lines using Myers' algorithm.
+ * @returns The edits, or undefined if the lists differ by more than the maximum distance.
+ */
+const findEdits = (a: string[], b: string[]): DiffOp[] | undefined => {
+    const n = a.length
+    const m = b.length
+    const max = Math.min(n + m, MAX_EDIT_DISTANCE)
+    const offset = max + 1
+
+    const v = new Array<number>(2 * max + 3).fill(0)
+    const trace: number[][] = []
+
+    let found = false
+    for (let d = 0; d <= max && !found; d++) {
+        trace.push([...v])
+
+        for (let k = -d; k <= d; k += 2) {
+            let x = (k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]))
+                ? v[offset + k + 1]
+                : v[offset + k - 1] + 1
+
+            let y = x - k
+            while (x < n && y < m && a[x] === b[y]) {
+                x++
+                y++
+            }
+
+            v[offset + k] = x
+            if (x >= n && y >= m) {
+                found = true
+                break
+            }
+        }
+    }
+
+    if (!found) return
+
+    // walk back through the trace
+    const ops: DiffOp[] = []
+    let x = n
+    let y = m
+    for (let d = trace.length - 1; d >= 0; d--) {
+        const prev = trace[d]
+        const k = x - y
+
+        const prevK = (k === -d || (k !== d && prev[offset + k - 1] < prev[offset + k + 1])) ? k + 1 : k - 1
+        const prevX = prev[offset + prevK]
+        const prevY = prevX - prevK
+
+        while (x > prevX && y > prevY) {
+            ops.push([' ', a[--x]])
+            y--
+        }
+
+        if (d === 0) break
+
+        if (x === prevX) {
+            ops.push(['+', b[--y]])
+        } else {
+            ops.push(['-', a[--x]])
+        }
+    }
+
+    return ops.reverse()
+}
+
+const getEdits = (a: string[], b: string[]): DiffOp[] => {
+    let start = 0
+    while (start < a.length && start < b.length && a[start] === b[start]) {
+        start++
+    }
+
+    let end = 0
+    while (end < a.length - start && end < b.length - start && a[a.length - 1 - end] === b[b.length - 1 - end]) {
+        end++
+    }
+
+    const middleA = a.slice(start, a.length - end)
+    const middleB = b.slice(start, b.length - end)
+
+    const middle = findEdits(middleA, middleB) ?? [
+        ...middleA.map((line): DiffOp => ['-', line]),
+        ...middleB.map((line): DiffOp => ['+', line]),
+    ]
+
+    return [
+        ...a.slice(0, start).map((line): DiffOp => [' ', line]),
+        ...middle,
+        ...a.slice(a.length - end).map((line): DiffOp => [' ', line]),
+    ]
+}
+
+/**
+ * Splits a text into lines, keeping line endings so a missing final newline is a change.
+ */
+const splitLines = (text: string): string[] => {
+    return text.match(/[^\n]*\n|[^\n]+$/g) ?? []
+}
+
+/**
+ * Creates a unified diff between two texts.
+ * @returns The diff, or an empty string if the texts are equal.
+ */
+export const unifiedDiff = (oldText: string, newText: string, oldName: string, newName: string): string => {
+    if (oldText === newText) return ''
+
+    const ops = getEdits(splitLines(oldText), splitLines(newText))
+    const out = [`--- ${oldName}`, `+++ ${newName}`]
+
+    let i = 0
+    while (i < ops.length) {
+        // find the next change
+        while (i < ops.length && ops[i][0] === ' ') i++
+        if (i >= ops.length) break
+
+        const start = Math.max(0, i - CONTEXT_LINES)
+
+        // extend the hunk while changes are close enough to share context
+        let end = i
+        while (end < ops.length) {
+            if (ops[end][0] !== ' ') {
+                end++
+                continue
+            }
+
+            let next = end
+            while (next < ops.length && ops[next][0] === ' ') next++
+            if (next >= ops.length || next - end > CONTEXT_LINES * 2) break
+
+            end = next
+        }
+
+        end = Math.min(ops.length, end + CONTEXT_LINES)
+
+        let oldStart = 1
+        let newStart = 1
+        for (let j = 0; j < start; j++) {
+            if (ops[j][0] !== '+') oldStart++
+            if (ops[j][0] !== '-') newStart++
+        }
+
+        const hunk = ops.slice(start, end)
+        const oldCount = hunk.filter(x => x[0] !== '+').length
+        const newCount = hunk.filter(x => x[0] !== '-').length
+
+        out.push(`@@ -${oldCount === 0 ? oldStart - 1 : oldStart},${oldCount} +${newCount === 0 ? newStart - 1 : newStart},${newCount} @@`)
+        for (const [op, line] of hunk) {
+            if (line.endsWith('\n')) {
+                out.push(`${op}${line.slice(0, -1)}`)
+            } else {
+                out.push(`${op}${line}`, '\\ No newline at end of file')
+            }
+        }
+
+        i = end
+    }
+
+    return out.join('\n')
+}
@@ -0,0 +1,277 @@
+import path from 'path'
+
+import { parseLuaFiles } from './files'
+import { loadRosetta } from './pipeline'
+import { LuaClass, LuaFunction } from './parser/types'
+import { getStaticName } from './parser/utils'
+import { SymbolTable } from './symbols'
+import { RosettaCheckArgs } from './types'
+
+import { RosettaLuaClass, RosettaLuaConstructor, RosettaLuaFunction } from 'pz-rosetta-ts'
+import { Rosetta } from 'pz-rosetta-ts/lib/asledgehammer/rosetta/Rosetta'
+
+export type RosettaDriftKind =
+    | 'parameter-count'
+    | 'renamed-parameter'
+    | 'removed'
+    | 'undocumented'
+    | 'orphaned'
+
+export interface RosettaDrift {
+    kind: RosettaDriftKind
+    target: string
+    file?: string
+    message: string
+}
+
+interface RosettaParameterList {
+    parameters?: { name: string }[]
+}
+
+/**
+ * The global functions of loaded Rosetta files, which the Rosetta class doesn't declare.
+ */
+interface RosettaGlobalFunctions {
+    functions?: { [name: string]: RosettaLuaFunction }
+}
+
+/**
+ * The constructor of a Rosetta class, which the class typings don't declare.
+ */
+interface RosettaLuaClassConstructor {
+    conztructor?: RosettaLuaConstructor
+}
+
+/**
+ * Gets the constructor defined by a Rosetta class.
+ */
+export const getRosettaConstructor = (rosettaClass: RosettaLuaClass): RosettaLuaConstructor | undefined => {
+    return (rosettaClass as RosettaLuaClass & RosettaLuaClassConstructor).conztructor
+}
+
+/**
+ * Compares the parameters of a Lua function with its Rosetta definition.
+ * @returns A description of the mismatch, or undefined if the parameters match.
+ */
+export const compareParameters = (
+    func: LuaFunction,
+    rosettaObj: RosettaParameterList
+): Pick<RosettaDrift, 'kind' | 'message'> | undefined => {
+    if (!rosettaObj.parameters) return
+
+    const luaParams = func.parameters
+    const rosettaParams = rosettaObj.parameters.map(x => x.name)
+
+    if (luaParams.length !== rosettaParams.length) {
+        return {
+            kind: 'parameter-count',
+            message: `parameter count doesn't match (lua: ${luaParams.length}, rosetta: ${rosettaParams.length})`,
+        }
+    }
+
+    const renamed = []
+    for (let i = 0; i < luaParams.length; i++) {
+        if (luaParams[i] !== rosettaParams[i]) {
+            renamed.push(`'${rosettaParams[i]}' → '${luaParams[i]}'`)
+        }
+    }
+
+    if (renamed.length > 0) {
+        return {
+            kind: 'renamed-parameter',
+            message: `parameter(s) renamed: ${renamed.join(', ')}`,
+        }
+    }
+}
+
+const compareFunctions = (
+    owner: string,
+    separator: string,
+    functions: LuaFunction[],
+    rosettaFunctions: { [name: string]: RosettaParameterList } | undefined,
+    file: string | undefined,
+    drift: RosettaDrift[]
+) => {
+    const seen = new Set<string>()
+    const label = separator === ':' ? 'method' : 'function'
+
+    for (const func of functions) {
+        if (func.name === 'new') continue
+        seen.add(func.name)
+
+        const target = `${owner}${separator}${func.name}`
+        const rosettaObj = rosettaFunctions?.[func.name]
+        if (!rosettaObj) {
+            drift.push({ kind: 'undocumented', target, file, message: `${label} is not documented` })
+            continue
+        }
+
+        const mismatch = compareParameters(func, rosettaObj)
+        if (mismatch) {
+            drift.push({ ...mismatch, target, file })
+        }
+    }
+
+    for (const name of Object.keys(rosettaFunctions ?? {})) {
+        if (seen.has(name)) continue
+
+        const target = `${owner}${separator}${name}`
+        drift.push({ kind: 'removed', target, file, message: `${label} no longer exists in lua` })
+    }
+}
+
+const compareClass = (cls: LuaClass, rosettaClass: RosettaLuaClass, file: string | undefined, drift: RosettaDrift[]) => {
+    const fields = new Set(Object.keys(cls.fields))
+    for (const info of cls.statics) {
+        const name = getStaticName(info)
+        if (name) {
+            fields.add(name)
+        }
+    }
+
+    const rosettaFields = rosettaClass.fields ?? {}
+    for (const name of fields) {
+        if (rosettaFields[name]) continue
+
+        const target = `${cls.name}.${name}`
+        drift.push({ kind: 'undocumented', target, file, message: 'field is not documented' })
+    }
+
+    for (const name of Object.keys(rosettaFields)) {
+        if (fields.has(name)) continue
+
+        const target = `${cls.name}.${name}`
+        drift.push({ kind: 'removed', target, file, message: 'field no longer exists in lua' })
+    }
+
+    const cons = cls.functions.find(x => x.name === 'new') ?? cls.methods.find(x => x.name === 'new')
+    const rosettaCons = getRosettaConstructor(rosettaClass)
+    if (cons && rosettaCons) {
+        const mismatch = compareParameters(cons, rosettaCons)
+        if (mismatch) {
+            drift.push({ ...mismatch, target: `${cls.name}.new`, file })
+        }
+    }
+
+    compareFunctions(cls.name, '.', cls.functions, rosettaClass.functions, file, drift)
+    compareFunctions(cls.name, ':', cls.methods, rosettaClass.methods, file, drift)
+}
+
+/**
+ * Finds differences between Rosetta definitions and the parsed Lua.
+ */
+export const findRosettaDrift = (rosetta: Rosetta, symbols: SymbolTable, includeUndocumented = true): RosettaDrift[] => {
+    const drift: RosettaDrift[] = []
+    const luaClasses: { [name: string]: RosettaLuaClass } = rosetta.luaClasses ?? {}
+
+    for (const cls of symbols.getClasses()) {
+        if (cls.generated || cls.noAnnotation) continue
+
+        const file = symbols.getClassOwner(cls.name)
+        const rosettaClass = luaClasses[cls.name]
+        if (!rosettaClass) {
+            drift.push({ kind: 'undocumented', target: cls.name, file, message: 'class is not documented' })
+            continue
+        }
+
+        compareClass(cls, rosettaClass, file, drift)
+    }
+
+    for (const name of Object.keys(luaClasses)) {
+        if (symbols.hasClass(name)) continue
+        drift.push({ kind: 'orphaned', target: name, message: 'rosetta class has no lua counterpart' })
+    }
+
+    // global functions
+    const rosettaFunctions = (rosetta as Rosetta & RosettaGlobalFunctions).functions ?? {}
+    for (const func of symbols.getFunctions()) {
+        const file = symbols.getGlobalOwner(func.name)
+        const rosettaObj = rosettaFunctions[func.name]
+        if (!rosettaObj) {
+            drift.push({ kind: 'undocumented', target: func.name, file, message: 'function is not documented' })
+            continue
+        }
+
+        const mismatch = compareParameters(func, rosettaObj)
+        if (mismatch) {
+            drift.push({ ...mismatch, target: func.name, file })
+        }
+    }
+
+    for (const name of Object.keys(rosettaFunctions)) {
+        if (symbols.getGlobalOwner(name)) continue
+        drift.push({ kind: 'orphaned', target: name, message: 'rosetta function has no lua counterpart' })
+    }
+
+    if (!includeUndocumented) {
+        return drift.filter(x => x.kind !== 'undocumented')
+    }
+
+    return drift
+}
+
+const formatDrift = (drift: RosettaDrift[]): string => {
+    const byFile: { [file: string]: RosettaDrift[] } = {}
+    for (const item of drift) {
+        const file = item.file ?? '(rosetta)'
+        if (!byFile[file]) {
+            byFile[file] = []
+        }
+
+        byFile[file].push(item)
+    }
+
+    const out: string[] = []
+    for (const file of Object.keys(byFile).sort()) {
+        out.push(file)
+
+        for (const item of byFile[file]) {
+            out.push(`    ${item.kind.padEnd(18)} ${item.target}: ${item.message}`)
+        }
+
+        out.push('')
+    }
+
+    out.push(`${drift.length} issue(s) found.`)
+    return out.join('\n')
+}
+
+export const checkRosetta = async (options: RosettaCheckArgs) => {
+    let failed = false
+    const rosetta = loadRosetta(options, message => {
+        console.error(message)
+        failed = true
+    })
+
+    // everything would be reported against empty definitions
+    if (failed) {
+        process.exitCode = 1
+        return
+    }
+
+    const inDir = path.resolve(options.in)
+    const errors: string[] = []
+    const parsedFiles = await parseLuaFiles(inDir, errors)
+
+    const symbols = new SymbolTable()
+    for (const { fullPath, result } of parsedFiles) {
+        symbols.addFile(path.relative(inDir, fullPath), result)
+    }
+
+    symbols.resolve()
+
+    const drift = findRosettaDrift(rosetta, symbols, !options['ignore-undocumented'])
+    if (options.json) {
+        console.log(JSON.stringify({ drift, errors }, undefined, 2))
+    } else {
+        console.log(formatDrift(drift))
+
+        for (const error of errors) {
+            console.error(error)
+        }
+    }
+
+    if (drift.length > 0 || errors.length > 0) {
+        process.exitCode = 1
+    }
+}
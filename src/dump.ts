@@ -0,0 +1,269 @@
+import fs from 'fs'
+import path from 'path'
+
+import { VERSION } from './version'
+import { DumpArgs } from './types'
+import { parseLuaFiles } from './files'
+import { buildSymbolTable, loadRosetta } from './pipeline'
+import { SymbolTable } from './symbols'
+import { getLocation } from './parser/utils'
+import { getEnvironment } from './environment'
+import { LuaClass, LuaDocTag, LuaEnumKind, LuaEnvironment, LuaEventHandler, LuaFunction, LuaHook, LuaLocation, LuaSourceInfo } from './parser/types'
+import {
+    beginAnnotation,
+    getFieldNames,
+    getFieldTag,
+    getSignature,
+    getStaticType,
+    inferType,
+    isEnumClass,
+    rewriteExpression,
+} from './annotator'
+
+import { Rosetta } from 'pz-rosetta-ts/lib/asledgehammer/rosetta/Rosetta'
+
+export interface FunctionDump {
+    name: string
+    parameters: LuaDocTag[]
+    returns: LuaDocTag[]
+    notes?: string
+    deprecated?: boolean
+    location?: LuaLocation
+    environment?: LuaEnvironment
+
+    /** The input directory which defined the function. */
+    root?: string
+
+    /** Files which hook the function. */
+    hookedBy?: string[]
+}
+
+export interface FieldDump {
+    name: string
+    type: string
+    notes?: string
+    location?: LuaLocation
+    root?: string
+}
+
+export interface StaticDump {
+    name: string
+    type?: string
+    enum?: LuaEnumKind
+    notes?: string
+    location?: LuaLocation
+}
+
+export interface ClassDump {
+    name: string
+    base?: string
+    generated: boolean
+    constructorType?: string
+    notes?: string
+    deprecated?: boolean
+
+    /** Set if the class is annotated as a table of constants. */
+    enum?: LuaEnumKind
+
+    /** The local a module table is declared with. */
+    localName?: string
+
+    /** Tables whose members are copied into the class or inherited through its metatable. */
+    mixins?: string[]
+
+    /** Whether the class has a Rosetta definition. */
+    documented: boolean
+    location?: LuaLocation
+    environment?: LuaEnvironment
+    root?: string
+    fields: FieldDump[]
+    methods: FunctionDump[]
+    functions: FunctionDump[]
+    statics: StaticDump[]
+}
+
+export interface LocalDump {
+    name: string
+    type?: string
+    location?: LuaLocation
+}
+
+export interface ModuleReturnDump {
+    expression?: string
+    type?: string
+    location?: LuaLocation
+}
+
+export interface FileDump {
+    file: string
+    environment?: LuaEnvironment
+    classes: ClassDump[]
+
+    /** Members added to classes defined in other files. */
+    extensions: ClassDump[]
+    functions: FunctionDump[]
+    locals: LocalDump[]
+    moduleReturns: ModuleReturnDump[]
+
+    /** Functions the file replaces with wrappers. */
+    hooks: LuaHook[]
+    events: LuaEventHandler[]
+}
+
+export interface ApiDump {
+    version: string
+    files: FileDump[]
+    errors: string[]
+}
+
+const dumpFunction = (cls: LuaClass | undefined, func: LuaFunction, isMethod: boolean): FunctionDump => {
+    let returnType: string | undefined
+    if (cls && func.name === 'new') {
+        returnType = cls.constructorType ?? (isMethod ? cls.name : undefined) ?? 'any'
+    }
+
+    const { parameters, returns, notes, deprecated } = getSignature(cls, func, isMethod, returnType)
+
+    return {
+        name: func.name,
+        parameters,
+        returns,
+        notes,
+        deprecated,
+        location: func.location,
+        environment: func.environment,
+        root: func.root,
+        hookedBy: func.hookedBy,
+    }
+}
+
+const dumpClass = (cls: LuaClass, rosetta: Rosetta): ClassDump => {
+    const rosettaLuaClass = rosetta.luaClasses[cls.name]
+
+    let notes: string | undefined
+    if (rosettaLuaClass?.notes) {
+        notes = rosettaLuaClass.notes
+    } else if (cls.doc && cls.doc.description.length > 0) {
+        notes = cls.doc.description.join('\n')
+    }
+
+    const fields = getFieldNames(cls).map((name): FieldDump => {
+        const { type, notes } = getFieldTag(cls, name, rosettaLuaClass)
+        const field = cls.fields[name]
+        return { name, type, notes, location: getLocation(field?.values[0]), root: field?.root }
+    })
+
+    const statics = cls.statics.map((info): StaticDump => ({
+        name: rewriteExpression(info.variable) ?? info.base,
+        type: getStaticType(info),
+        enum: info.enum,
+        notes: info.doc && info.doc.description.length > 0 ? info.doc.description.join('\n') : undefined,
+        location: getLocation(info.variable),
+    }))
+
+    const sortFunctions = (functions: LuaFunction[]) => [...functions].sort((a, b) => a.name.localeCompare(b.name))
+
+    return {
+        name: cls.name,
+        base: cls.base ?? cls.doc?.base,
+        generated: !!cls.generated,
+        constructorType: cls.constructorType,
+        notes,
+        enum: isEnumClass(cls) ? cls.enum : undefined,
+        localName: cls.localName,
+        mixins: cls.mixins,
+        deprecated: rosettaLuaClass?.deprecated || cls.doc?.tags.includes('@deprecated') || undefined,
+        documented: rosettaLuaClass !== undefined,
+        location: cls.location,
+        environment: cls.environment,
+        root: cls.root,
+        fields,
+        methods: sortFunctions(cls.methods).map(func => dumpFunction(cls, func, true)),
+        functions: sortFunctions(cls.functions).map(func => dumpFunction(cls, func, false)),
+        statics,
+    }
+}
+
+/**
+ * Describes the API of a parsed file.
+ */
+export const dumpFile = (
+    file: string,
+    result: LuaSourceInfo,
+    rosetta: Rosetta,
+    symbols?: SymbolTable
+): FileDump => {
+    beginAnnotation(rosetta, result, symbols)
+
+    const classes = Object.values(result.classes)
+        .filter(cls => !cls.noAnnotation)
+        .map(cls => dumpClass(symbols?.getDefinition(cls) ?? cls, rosetta))
+
+    // merged into their class in project mode
+    const extensions = symbols ? [] : Object.values(result.extensions).map(cls => dumpClass(cls, rosetta))
+
+    const locals = Object.values(result.locals).map((local): LocalDump => ({
+        name: local.name,
+        type: inferType(local.init),
+        location: getLocation(local.init),
+    }))
+
+    const moduleReturns = result.moduleReturns.map((expr): ModuleReturnDump => ({
+        expression: rewriteExpression(expr),
+        type: inferType(expr),
+        location: getLocation(expr),
+    }))
+
+    const functions = result.functions
+        .map(func => dumpFunction(undefined, symbols?.getFunctionDefinition(func) ?? func, false))
+
+    return {
+        file,
+        environment: getEnvironment(file),
+        classes,
+        extensions,
+        functions,
+        locals,
+        moduleReturns,
+        hooks: result.hooks,
+        events: result.events,
+    }
+}
+
+export const dumpApi = async (options: DumpArgs) => {
+    // stdout may be the dump itself
+    const rosetta = loadRosetta(options, console.error)
+
+    const inDir = path.resolve(options.in)
+    const errors: string[] = []
+    const parsedFiles = await parseLuaFiles(inDir, errors)
+
+    const symbols = options.project ? buildSymbolTable([inDir], parsedFiles) : undefined
+
+    const dump: ApiDump = {
+        version: VERSION,
+        files: parsedFiles.map(({ fullPath, result }) => {
+            // posix paths, so dumps are the same across platforms
+            const file = path.relative(inDir, fullPath).split(path.sep).join('/')
+            return dumpFile(file, result, rosetta, symbols)
+        }),
+        errors,
+    }
+
+    const json = JSON.stringify(dump, undefined, 2)
+    if (!options.out) {
+        console.log(json)
+    } else {
+        try {
+            await fs.promises.mkdir(path.dirname(path.resolve(options.out)), { recursive: true })
+            await fs.promises.writeFile(options.out, json, { flag: 'w' })
+        } catch (e) {
+            console.error(`Failed to create file: ${options.out}`)
+            process.exitCode = 1
+        }
+    }
+
+    for (const error of errors) {
+        console.error(error)
+    }
+}
@@ -0,0 +1,47 @@
+import { LuaClass, LuaEnvironment, LuaSourceInfo } from './parser/types'
+
+export const ENVIRONMENTS: LuaEnvironment[] = ['client', 'server', 'shared']
+
+/**
+ * Gets the environment a file is loaded in from its directory.
+ * @param relativePath The path of the file relative to the input directory.
+ */
+export const getEnvironment = (relativePath: string): LuaEnvironment | undefined => {
+    const dirs = relativePath.split(/[\\/]/).slice(0, -1)
+    return dirs.find((x): x is LuaEnvironment => ENVIRONMENTS.includes(x as LuaEnvironment))
+}
+
+/**
+ * Gets the environments whose stub libraries should include a file.
+ * Shared files, and files outside the environment directories, are loaded in both.
+ */
+export const getLibraryEnvironments = (environment: LuaEnvironment | undefined): LuaEnvironment[] => {
+    if (environment === 'client' || environment === 'server') return [environment]
+    return ['client', 'server']
+}
+
+const setClassEnvironment = (cls: LuaClass, environment: LuaEnvironment) => {
+    cls.environment = environment
+    for (const func of [...cls.methods, ...cls.functions]) {
+        func.environment = environment
+    }
+}
+
+/**
+ * Records the environment of a file on its classes, functions, and event handlers.
+ */
+export const setEnvironment = (info: LuaSourceInfo, environment: LuaEnvironment | undefined) => {
+    if (!environment) return
+
+    for (const cls of [...Object.values(info.classes), ...Object.values(info.extensions)]) {
+        setClassEnvironment(cls, environment)
+    }
+
+    for (const func of info.functions) {
+        func.environment = environment
+    }
+
+    for (const handler of info.events) {
+        handler.environment = environment
+    }
+}
@@ -0,0 +1,239 @@
+import path from 'path'
+
+import { VERSION } from './version'
+import { EventsArgs } from './types'
+import { annotate } from './annotator'
+import { loadRosetta } from './pipeline'
+import { parseLuaFiles, writeOutputFile } from './files'
+import { LuaClass, LuaDocComment, LuaEnvironment, LuaEventHandler, LuaFunction, LuaLocation, LuaSourceInfo } from './parser/types'
+
+import { Rosetta } from 'pz-rosetta-ts/lib/asledgehammer/rosetta/Rosetta'
+
+const EVENTS_CLASS = 'Events'
+
+interface RosettaEventParameter {
+    name: string
+    type?: string
+    notes?: string
+}
+
+interface RosettaEvent {
+    notes?: string
+    deprecated?: boolean
+    parameters?: RosettaEventParameter[]
+}
+
+/**
+ * The events of loaded Rosetta files, which the Rosetta class doesn't declare.
+ */
+interface RosettaEvents {
+    events?: { [name: string]: RosettaEvent }
+}
+
+export interface EventHandlerReport {
+    file: string
+    handler?: string
+    parameters?: string[]
+    location?: LuaLocation
+    environment?: LuaEnvironment
+}
+
+export interface EventReport {
+    name: string
+
+    /** Whether the event has a Rosetta definition. */
+    documented: boolean
+    handlers: EventHandlerReport[]
+}
+
+export interface EventsReport {
+    version: string
+    events: EventReport[]
+    errors: string[]
+}
+
+/**
+ * Gets the events described by Rosetta.
+ */
+const getRosettaEvents = (rosetta: Rosetta): { [name: string]: RosettaEvent } => {
+    return (rosetta as Rosetta & RosettaEvents).events ?? {}
+}
+
+const buildDoc = (notes?: string, deprecated?: boolean): LuaDocComment => {
+    notes = notes?.trim()
+
+    return {
+        description: notes ? notes.split('\n') : [],
+        params: {},
+        returns: [],
+        fields: {},
+        tags: deprecated ? ['@deprecated'] : [],
+    }
+}
+
+/**
+ * Gets the type of the callbacks of an event.
+ * Without a Rosetta definition, parameters are taken from the handler with the most,
+ * since handlers may ignore trailing arguments.
+ */
+const getCallbackType = (handlers: LuaEventHandler[], rosettaEvent?: RosettaEvent): string => {
+    if (rosettaEvent?.parameters) {
+        const params = rosettaEvent.parameters.map(param => `${param.name}: ${param.type?.trim() || 'any'}`)
+        return `fun(${params.join(', ')})`
+    }
+
+    let parameters: string[] | undefined
+    for (const handler of handlers) {
+        if (!handler.parameters) continue
+        if (parameters && parameters.length >= handler.parameters.length) continue
+
+        parameters = handler.parameters
+    }
+
+    if (!parameters) return 'fun(...)'
+
+    return `fun(${parameters.map(param => `${param}: any`).join(', ')})`
+}
+
+const buildCallbackFunction = (name: string, notes: string, callbackType: string): LuaFunction => {
+    const doc = buildDoc(notes)
+    doc.params.callback = { name: 'callback', type: callbackType }
+
+    return {
+        name,
+        parameters: ['callback'],
+        parameterHints: {},
+        returns: [],
+        fallsThrough: true,
+        doc,
+    }
+}
+
+const buildEventClass = (name: string, handlers: LuaEventHandler[], rosettaEvent?: RosettaEvent): LuaClass => {
+    const callbackType = getCallbackType(handlers, rosettaEvent)
+
+    return {
+        name: `${EVENTS_CLASS}.${name}`,
+        fields: {},
+        methods: [],
+        functions: [
+            buildCallbackFunction('Add', 'Adds a function to call when the event is triggered.', callbackType),
+            buildCallbackFunction('Remove', 'Removes a function added to the event.', callbackType),
+        ],
+        statics: [],
+        doc: buildDoc(rosettaEvent?.notes, rosettaEvent?.deprecated),
+    }
+}
+
+/**
+ * Builds source info for the events stub, as if it were read from annotated Lua.
+ * @param handlers The handlers added to each event.
+ */
+export const buildEventsSource = (rosetta: Rosetta, handlers: Map<string, LuaEventHandler[]>): LuaSourceInfo => {
+    const result: LuaSourceInfo = {
+        classes: {},
+        extensions: {},
+        functions: [],
+        locals: {},
+        localAssigns: [],
+        moduleReturns: [],
+        globalReferences: [],
+        hooks: [],
+        events: [],
+    }
+
+    result.classes[EVENTS_CLASS] = {
+        name: EVENTS_CLASS,
+        fields: {},
+        methods: [],
+        functions: [],
+        statics: [],
+        doc: buildDoc('Game events, which call the functions added to them when triggered.'),
+    }
+
+    const rosettaEvents = getRosettaEvents(rosetta)
+    const names = new Set([...handlers.keys(), ...Object.keys(rosettaEvents)])
+    for (const name of [...names].sort()) {
+        const cls = buildEventClass(name, handlers.get(name) ?? [], rosettaEvents[name])
+        result.classes[cls.name] = cls
+    }
+
+    return result
+}
+
+/**
+ * Builds the report of the files which add handlers to each event.
+ */
+export const buildEventsReport = (
+    rosetta: Rosetta,
+    files: { file: string, info: LuaSourceInfo }[],
+    errors: string[]
+): EventsReport => {
+    const rosettaEvents = getRosettaEvents(rosetta)
+    const events = new Map<string, EventReport>()
+
+    for (const { file, info } of files) {
+        for (const handler of info.events) {
+            let report = events.get(handler.event)
+            if (!report) {
+                report = { name: handler.event, documented: rosettaEvents[handler.event] !== undefined, handlers: [] }
+                events.set(handler.event, report)
+            }
+
+            report.handlers.push({
+                file,
+                handler: handler.handler,
+                parameters: handler.parameters,
+                location: handler.location,
+                environment: handler.environment,
+            })
+        }
+    }
+
+    return {
+        version: VERSION,
+        events: [...events.values()].sort((a, b) => a.name.localeCompare(b.name)),
+        errors,
+    }
+}
+
+export const annotateEvents = async (options: EventsArgs) => {
+    const rosetta = loadRosetta(options)
+
+    const inDir = path.resolve(options.in)
+    const errors: string[] = []
+    const parsedFiles = await parseLuaFiles(inDir, errors)
+
+    // posix paths, so reports are the same across platforms
+    const files = parsedFiles.map(({ fullPath, result }) => ({
+        file: path.relative(inDir, fullPath).split(path.sep).join('/'),
+        info: result,
+    }))
+
+    const handlers = new Map<string, LuaEventHandler[]>()
+    for (const { info } of files) {
+        for (const handler of info.events) {
+            if (!handlers.has(handler.event)) {
+                handlers.set(handler.event, [])
+            }
+
+            handlers.get(handler.event)!.push(handler)
+        }
+    }
+
+    const content = annotate(rosetta, buildEventsSource(rosetta, handlers), EVENTS_CLASS, {})
+    await writeOutputFile(path.resolve(options.out), content, errors)
+
+    if (options.report) {
+        const report = buildEventsReport(rosetta, files, errors)
+        await writeOutputFile(path.resolve(options.report), JSON.stringify(report, undefined, 2), errors)
+    }
+
+    for (const error of errors) {
+        console.error(error)
+    }
+
+    if (errors.length > 0) {
+        process.exitCode = 1
+    }
+}
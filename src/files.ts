@@ -0,0 +1,233 @@
+import fs from 'fs'
+import path from 'path'
+import { parse } from './parser'
+import { LuaSourceInfo } from './parser/types'
+import { getEnvironment, setEnvironment } from './environment'
+import { getRequirePath, setModuleClassNames } from './modules'
+
+export interface ParsedFile {
+    fullPath: string
+    result: LuaSourceInfo
+}
+
+/**
+ * Finds the files with an extension in a directory and its subdirectories.
+ * @returns A sorted list of full paths.
+ */
+export const findFiles = async (inDir: string, extension: string, errors: string[]): Promise<string[]> => {
+    const files: string[] = []
+
+    const stack = [inDir]
+    while (stack.length > 0) {
+        const dirPath = stack.pop()!
+
+        let dir: fs.Dir
+        try {
+            dir = await fs.promises.opendir(dirPath)
+        } catch (e) {
+            errors.push(`Failed to open directory: ${dirPath}`)
+            continue
+        }
+
+        for await (const fileOrDirectory of dir) {
+            const fullPath = path.join(dirPath, fileOrDirectory.name)
+            if (fileOrDirectory.isDirectory()) {
+                stack.push(fullPath)
+                continue
+            } else if (!fileOrDirectory.isFile() || !fullPath.endsWith(extension)) {
+                continue
+            }
+
+            files.push(fullPath)
+        }
+    }
+
+    return files.sort()
+}
+
+/**
+ * Finds the Lua files in a directory and its subdirectories.
+ * @returns A sorted list of full paths.
+ */
+export const findLuaFiles = (inDir: string, errors: string[]): Promise<string[]> => {
+    return findFiles(inDir, '.lua', errors)
+}
+
+/**
+ * Gets the input directory which contains a file.
+ * @param roots The input directories, as given.
+ */
+export const getInputRoot = (roots: string[], fullPath: string): string => {
+    let match = roots[0]
+    let length = -1
+
+    // the innermost directory, in case they're nested
+    for (const root of roots) {
+        const dirPath = path.resolve(root)
+        if (dirPath.length <= length) continue
+        if (fullPath !== dirPath && !fullPath.startsWith(dirPath + path.sep)) continue
+
+        match = root
+        length = dirPath.length
+    }
+
+    return match
+}
+
+/**
+ * Gets the path of a file relative to the input directory which contains it.
+ */
+export const getRelativePath = (roots: string[], fullPath: string): string => {
+    return path.relative(path.resolve(getInputRoot(roots, fullPath)), fullPath)
+}
+
+/**
+ * Sorts files by the priority of their input directories, then by path.
+ */
+export const sortInputFiles = (roots: string[], fullPaths: string[]): string[] => {
+    const priorities = new Map(fullPaths.map(x => [x, roots.indexOf(getInputRoot(roots, x))]))
+    return [...fullPaths].sort((a, b) => {
+        const priority = priorities.get(a)! - priorities.get(b)!
+        if (priority !== 0) return priority
+
+        return a < b ? -1 : a > b ? 1 : 0
+    })
+}
+
+/**
+ * Finds the Lua files in several input directories.
+ * Files in later directories override files with the same relative path in earlier ones.
+ * @returns A list of full paths, sorted by `sortInputFiles`.
+ */
+export const findInputFiles = async (roots: string[], errors: string[]): Promise<string[]> => {
+    const files = new Map<string, string>()
+    for (const root of roots) {
+        const dirPath = path.resolve(root)
+        for (const fullPath of await findLuaFiles(dirPath, errors)) {
+            files.set(path.relative(dirPath, fullPath), fullPath)
+        }
+    }
+
+    return sortInputFiles(roots, [...files.values()])
+}
+
+/**
+ * Gets the file which takes priority over a file with the same relative path.
+ * @returns The overriding file, or the file itself if no other file exists.
+ */
+export const resolveInputFile = (roots: string[], fullPath: string): string => {
+    const relativePath = getRelativePath(roots, fullPath)
+    for (const root of [...roots].reverse()) {
+        const candidate = path.join(path.resolve(root), relativePath)
+        if (fs.existsSync(candidate) && fs.statSync(candidate).isFile()) return candidate
+    }
+
+    return fullPath
+}
+
+/**
+ * Records the input directory of a file on its classes, fields and functions.
+ */
+const setRoot = (info: LuaSourceInfo, root: string) => {
+    for (const cls of [...Object.values(info.classes), ...Object.values(info.extensions)]) {
+        cls.root = root
+
+        for (const field of Object.values(cls.fields)) {
+            field.root = root
+        }
+
+        for (const func of [...cls.methods, ...cls.functions]) {
+            func.root = root
+        }
+    }
+
+    for (const func of info.functions) {
+        func.root = root
+    }
+}
+
+/**
+ * Reads the contents of a Lua file.
+ * Failures are reported in `errors`.
+ */
+export const readLuaFile = async (fullPath: string, errors: string[]): Promise<string | undefined> => {
+    try {
+        const file = await fs.promises.open(fullPath)
+        const content = await file.readFile('utf-8')
+        await file.close()
+
+        return content
+    } catch (e) {
+        errors.push(`Failed to read file: ${fullPath}`)
+    }
+}
+
+/**
+ * Parses the contents of a Lua file.
+ * Failures are reported in `errors`.
+ * @param root The input directory containing the file, which is recorded on its members.
+ */
+export const parseLuaContent = (
+    fullPath: string,
+    content: string,
+    root: string,
+    errors: string[]
+): ParsedFile | undefined => {
+    const parsed = parse(content)
+    if (!parsed.success) {
+        errors.push(`Failed to parse file: ${fullPath}`)
+        return
+    }
+
+    const relativePath = path.relative(path.resolve(root), fullPath)
+    setModuleClassNames(parsed.result, getRequirePath(relativePath))
+    setRoot(parsed.result, root)
+    setEnvironment(parsed.result, getEnvironment(relativePath))
+    return { fullPath, result: parsed.result }
+}
+
+/**
+ * Reads and parses a Lua file.
+ * Failures are reported in `errors`.
+ */
+export const parseLuaFile = async (fullPath: string, root: string, errors: string[]): Promise<ParsedFile | undefined> => {
+    const content = await readLuaFile(fullPath, errors)
+    if (content === undefined) return
+
+    return parseLuaContent(fullPath, content, root, errors)
+}
+
+/**
+ * Reads and parses the Lua files in a directory.
+ * Files which fail to read or parse are reported in `errors`.
+ */
+export const parseLuaFiles = async (inDir: string, errors: string[]): Promise<ParsedFile[]> => {
+    const parsedFiles: ParsedFile[] = []
+
+    for (const fullPath of await findLuaFiles(inDir, errors)) {
+        const parsed = await parseLuaFile(fullPath, inDir, errors)
+        if (parsed) {
+            parsedFiles.push(parsed)
+        }
+    }
+
+    return parsedFiles
+}
+
+export type OutputWriter = (outputPath: string, content: string | Buffer, errors: string[]) => Promise<boolean>
+
+/**
+ * Writes a file, creating its directory if necessary.
+ * Failures are reported in `errors`.
+ */
+export const writeOutputFile: OutputWriter = async (outputPath, content, errors) => {
+    try {
+        await fs.promises.mkdir(path.dirname(outputPath), { recursive: true })
+        await fs.promises.writeFile(outputPath, content, { flag: 'w' })
+    } catch (e) {
+        errors.push(`Failed to create file: ${outputPath}`)
+        return false
+    }
+
+    return true
+}
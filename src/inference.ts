@@ -0,0 +1,277 @@
+import ast from 'luaparse'
+import { LuaClass } from './parser/types'
+import { getRequiredModule } from './parser/utils'
+
+/**
+ * Provides information about the surrounding code to type inference.
+ */
+export interface InferenceScope {
+    resolveClass(name: string): LuaClass | undefined
+
+    /** Gets the type of the table a module returns, from the path passed to `require`. */
+    resolveModule?(requirePath: string): string | undefined
+    selfType?: string
+}
+
+const builtinReturnTypes: { [name: string]: string } = {
+    tostring: 'string',
+    tonumber: 'number?',
+    type: 'string',
+    getText: 'string',
+    getTextOrNull: 'string?',
+}
+
+const mathFunctions = [
+    'abs', 'acos', 'asin', 'atan', 'atan2', 'ceil', 'cos', 'cosh', 'deg', 'exp', 'floor', 'fmod',
+    'log', 'log10', 'max', 'min', 'pow', 'rad', 'random', 'sin', 'sinh', 'sqrt', 'tan', 'tanh',
+]
+
+// functions like string.find and string.byte may return nothing, so they aren't included
+const builtinLibraryTypes: { [lib: string]: { [name: string]: string } } = {
+    math: Object.fromEntries(mathFunctions.map(name => [name, 'number'])),
+    string: {
+        char: 'string',
+        format: 'string',
+        gsub: 'string',
+        len: 'number',
+        lower: 'string',
+        rep: 'string',
+        reverse: 'string',
+        sub: 'string',
+        upper: 'string',
+    },
+}
+
+const arithmeticOperators = new Set(['+', '-', '*', '/', '%', '^'])
+const comparisonOperators = new Set(['==', '~=', '<', '>', '<=', '>='])
+
+/**
+ * Combines a list of types into a single union type.
+ * `nil` members make the resulting type optional.
+ * @returns The union, or undefined if any of the types is unknown.
+ */
+export const unionTypes = (types: (string | undefined)[]): string | undefined => {
+    const seen: string[] = []
+    let optional = false
+
+    for (let type of types) {
+        if (!type) return
+
+        if (type.endsWith('?')) {
+            optional = true
+            type = type.slice(0, -1)
+        }
+
+        if (type === 'nil') {
+            optional = true
+            continue
+        }
+
+        if (seen.indexOf(type) === -1) {
+            seen.push(type)
+        }
+    }
+
+    if (seen.length === 0) return
+
+    // a table type absorbs more specific table types
+    if (seen.indexOf('table') !== -1) {
+        const filtered = seen.filter(x => x === 'table' || (!x.endsWith('[]') && !x.startsWith('table<')))
+        seen.splice(0, seen.length, ...filtered)
+    }
+
+    let joined = seen.join(' | ')
+    if (!optional) return joined
+
+    if (seen.length > 1) {
+        joined = `(${joined})`
+    }
+
+    return `${joined}?`
+}
+
+/**
+ * Infers the types of the values returned by a function.
+ * @param returns The arguments of each return statement in the function.
+ * @param fallsThrough Whether the function can end without a return statement.
+ * @returns A list of types, one per returned value.
+ */
+export const inferReturnTypes = (returns: ast.Expression[][], fallsThrough: boolean, scope: InferenceScope): string[] => {
+    const count = Math.max(0, ...returns.map(args => args.length))
+    const types: string[] = []
+
+    for (let i = 0; i < count; i++) {
+        const candidates: string[] = []
+        let optional = fallsThrough
+        let unknown = false
+
+        for (const args of returns) {
+            const arg = args[i]
+            if (!arg) {
+                optional = true
+                continue
+            }
+
+            const type = inferExpressionType(arg, scope)
+            if (!type) {
+                unknown = true
+                break
+            }
+
+            candidates.push(type)
+        }
+
+        if (unknown) {
+            types.push('any')
+            continue
+        }
+
+        if (optional) {
+            candidates.push('nil')
+        }
+
+        types.push(unionTypes(candidates) ?? 'nil')
+    }
+
+    return types
+}
+
+const inferTableType = (expr: ast.TableConstructorExpression, scope: InferenceScope): string => {
+    if (expr.fields.length === 0) return 'table'
+
+    const keyTypes: string[] = []
+    const valueTypes: (string | undefined)[] = []
+    let isArray = true
+
+    for (const field of expr.fields) {
+        if (field.type === 'TableValue') {
+            keyTypes.push('number')
+        } else if (field.type === 'TableKeyString') {
+            isArray = false
+            keyTypes.push('string')
+        } else {
+            isArray = false
+
+            const keyType = inferExpressionType(field.key, scope)
+            if (keyType !== 'string' && keyType !== 'number') return 'table'
+
+            keyTypes.push(keyType)
+        }
+
+        valueTypes.push(inferExpressionType(field.value, scope))
+    }
+
+    if (valueTypes.indexOf(undefined) !== -1) return 'table'
+
+    const valueType = unionTypes(valueTypes)
+    if (!valueType || valueType.indexOf('|') !== -1 || valueType.endsWith('?')) return 'table'
+
+    if (isArray) {
+        return valueType.indexOf(' ') === -1 ? `${valueType}[]` : 'table'
+    }
+
+    const keyType = unionTypes(keyTypes)
+    if (!keyType || keyType.indexOf('|') !== -1) return 'table'
+
+    return `table<${keyType}, ${valueType}>`
+}
+
+/**
+ * Infers the class that a `setmetatable(o, mt)` call makes its table an instance of.
+ * Matches `Class`, `self` and `{ __index = Class }` metatables.
+ */
+const inferInstanceType = (expr: ast.CallExpression, scope: InferenceScope): string | undefined => {
+    if (expr.arguments.length !== 2) return
+
+    let metatable = expr.arguments[1]
+    if (metatable.type === 'TableConstructorExpression') {
+        const index = metatable.fields.find(field => field.type === 'TableKeyString' && field.key.name === '__index')
+        if (!index) return
+
+        metatable = index.value
+    }
+
+    if (metatable.type !== 'Identifier') return
+    if (metatable.name === 'self') return scope.selfType
+
+    return scope.resolveClass(metatable.name)?.name
+}
+
+const inferCallType = (base: ast.Expression, scope: InferenceScope): string | undefined => {
+    if (base.type === 'Identifier') {
+        return builtinReturnTypes[base.name]
+    }
+
+    if (base.type !== 'MemberExpression' || base.base.type !== 'Identifier') return
+
+    // X:new(...) or X.new(...)
+    if (base.identifier.name === 'new') {
+        const cls = scope.resolveClass(base.base.name)
+        if (cls) {
+            return cls.constructorType ?? cls.name
+        }
+    }
+
+    return builtinLibraryTypes[base.base.name]?.[base.identifier.name]
+}
+
+/**
+ * Infers the LuaLS type of an expression.
+ * @returns The type, or undefined if it cannot be determined.
+ */
+export const inferExpressionType = (expr: ast.Expression, scope: InferenceScope): string | undefined => {
+    switch (expr.type) {
+        case 'StringLiteral':
+            return 'string'
+        case 'NumericLiteral':
+            // Kahlua numbers are always doubles
+            return 'number'
+        case 'BooleanLiteral':
+            return 'boolean'
+        case 'NilLiteral':
+            return 'nil'
+        case 'FunctionDeclaration':
+            return 'function'
+        case 'Identifier':
+            return expr.name === 'self' ? scope.selfType : undefined
+        case 'TableConstructorExpression':
+            return inferTableType(expr, scope)
+        case 'UnaryExpression':
+            return expr.operator === 'not' ? 'boolean' : 'number'
+        case 'BinaryExpression':
+            if (expr.operator === '..') return 'string'
+            if (arithmeticOperators.has(expr.operator)) return 'number'
+            if (comparisonOperators.has(expr.operator)) return 'boolean'
+            return
+        case 'LogicalExpression':
+            if (expr.operator === 'and') return
+
+            // x and y or z
+            if (expr.left.type === 'LogicalExpression' && expr.left.operator === 'and') {
+                return unionTypes([
+                    inferExpressionType(expr.left.right, scope),
+                    inferExpressionType(expr.right, scope),
+                ])
+            }
+
+            // x or default
+            const right = inferExpressionType(expr.right, scope)
+            const left = inferExpressionType(expr.left, scope)
+            if (!left || left === 'nil') return right
+
+            return unionTypes([left.endsWith('?') ? left.slice(0, -1) : left, right])
+        case 'CallExpression':
+        case 'StringCallExpression':
+        case 'TableCallExpression':
+            const requirePath = getRequiredModule(expr)
+            if (requirePath !== undefined) return scope.resolveModule?.(requirePath)
+
+            // setmetatable(o, self)
+            const base = expr.base
+            if (expr.type === 'CallExpression' && base.type === 'Identifier' && base.name === 'setmetatable') {
+                return inferInstanceType(expr, scope)
+            }
+
+            return inferCallType(expr.base, scope)
+    }
+}
@@ -0,0 +1,337 @@
+import path from 'path'
+
+import { annotate } from './annotator'
+import { JavaAnnotateArgs } from './types'
+import { writeOutputFile } from './files'
+import { loadRosetta } from './pipeline'
+import { LuaClass, LuaDocComment, LuaDocTag, LuaFunction, LuaSourceInfo } from './parser/types'
+
+import { Rosetta } from 'pz-rosetta-ts/lib/asledgehammer/rosetta/Rosetta'
+
+// class whose static methods are exposed as global functions
+const GLOBAL_CLASS = 'GlobalObject'
+const GLOBAL_FILENAME = '__global'
+
+const JAVA_TYPES: { [name: string]: string } = {
+    void: 'nil',
+    boolean: 'boolean',
+    Boolean: 'boolean',
+    byte: 'integer',
+    Byte: 'integer',
+    short: 'integer',
+    Short: 'integer',
+    int: 'integer',
+    Integer: 'integer',
+    long: 'integer',
+    Long: 'integer',
+    float: 'number',
+    Float: 'number',
+    double: 'number',
+    Double: 'number',
+    char: 'string',
+    Character: 'string',
+    String: 'string',
+    Object: 'any',
+    KahluaTable: 'table',
+    LuaClosure: 'function',
+}
+
+interface RosettaJavaType {
+    basic?: string
+    full?: string
+}
+
+interface RosettaJavaParameter {
+    name: string
+    type?: RosettaJavaType
+    notes?: string
+}
+
+interface RosettaJavaExecutable {
+    parameters?: RosettaJavaParameter[]
+    returns?: { type?: RosettaJavaType, notes?: string }
+    modifiers?: string[]
+    notes?: string
+    deprecated?: boolean
+}
+
+interface RosettaJavaField {
+    type?: RosettaJavaType
+    modifiers?: string[]
+    notes?: string
+}
+
+interface RosettaJavaClass {
+    name: string
+    extendz?: string
+    notes?: string
+    deprecated?: boolean
+    fields?: { [name: string]: RosettaJavaField }
+    methods?: { [name: string]: { methods: RosettaJavaExecutable[] } }
+    constructors?: RosettaJavaExecutable[]
+}
+
+interface RosettaJavaNamespace {
+    classes?: { [name: string]: RosettaJavaClass }
+}
+
+/**
+ * The Java namespaces of loaded Rosetta files, which the Rosetta class doesn't declare.
+ */
+interface RosettaJavaNamespaces {
+    namespaces?: { [name: string]: RosettaJavaNamespace }
+}
+
+/**
+ * Converts a Java type to the name used for it in Lua.
+ * Exposed classes are global, so packages are dropped.
+ */
+export const toLuaType = (type: RosettaJavaType | undefined): string => {
+    let name = (type?.basic ?? type?.full)?.trim()
+    if (!name) return 'any'
+
+    // varargs are passed as separate arguments
+    if (name.endsWith('...')) {
+        name = name.slice(0, -3)
+    }
+
+    let arrays = ''
+    while (name.endsWith('[]')) {
+        name = name.slice(0, -2)
+        arrays += '[]'
+    }
+
+    // generic arguments aren't exposed
+    const generic = name.indexOf('<')
+    if (generic !== -1) {
+        name = name.slice(0, generic)
+    }
+
+    name = name.slice(Math.max(name.lastIndexOf('.'), name.lastIndexOf('$')) + 1)
+    return (JAVA_TYPES[name] ?? name) + arrays
+}
+
+const isStatic = (obj: { modifiers?: string[] }): boolean => !!obj.modifiers?.includes('static')
+
+const buildDoc = (notes?: string, deprecated?: boolean): LuaDocComment => {
+    notes = notes?.trim()
+
+    return {
+        description: notes ? notes.split('\n') : [],
+        params: {},
+        returns: [],
+        fields: {},
+        tags: deprecated ? ['@deprecated'] : [],
+    }
+}
+
+const getParameterNames = (executable: RosettaJavaExecutable): string[] => {
+    const params = executable.parameters ?? []
+    return params.map((param, i) => {
+        const type = param.type?.basic ?? param.type?.full
+        if (i === params.length - 1 && type?.trim().endsWith('...')) return '...'
+
+        // lua parameter names must be valid identifiers
+        return /^[A-Za-z_]\w*$/.test(param.name) ? param.name : `arg${i}`
+    })
+}
+
+const getReturnTag = (executable: RosettaJavaExecutable): LuaDocTag | undefined => {
+    const type = toLuaType(executable.returns?.type)
+    if (type === 'nil') return
+
+    return { type, notes: executable.returns?.notes?.trim() || undefined }
+}
+
+const getOverloadType = (executable: RosettaJavaExecutable, returnType?: string, selfType?: string): string => {
+    const names = getParameterNames(executable)
+    const params = (executable.parameters ?? []).map((param, i) => `${names[i]}: ${toLuaType(param.type)}`)
+    if (selfType && !isStatic(executable)) {
+        params.unshift(`self: ${selfType}`)
+    }
+
+    const ret = returnType ?? getReturnTag(executable)?.type
+    return `fun(${params.join(', ')})${ret ? `: ${ret}` : ''}`
+}
+
+/**
+ * Builds a function from a Java method or constructor and its overloads.
+ * @param returnType The return type to use instead of the Java one, for constructors.
+ * @param selfType The class of instance overloads, which take the instance as their first parameter.
+ */
+const buildFunction = (
+    name: string,
+    overloads: RosettaJavaExecutable[],
+    returnType?: string,
+    selfType?: string
+): LuaFunction => {
+    const [executable, ...rest] = overloads
+    const doc = buildDoc(executable.notes, executable.deprecated)
+    const parameters = getParameterNames(executable)
+
+    for (const [i, param] of (executable.parameters ?? []).entries()) {
+        doc.params[parameters[i]] = {
+            name: parameters[i],
+            type: toLuaType(param.type),
+            notes: param.notes?.trim() || undefined,
+        }
+    }
+
+    const ret = returnType ? undefined : getReturnTag(executable)
+    if (ret) {
+        doc.returns.push(ret)
+    }
+
+    for (const overload of rest) {
+        doc.tags.push(`@overload ${getOverloadType(overload, returnType, selfType)}`)
+    }
+
+    return {
+        name,
+        parameters,
+        parameterHints: {},
+        returns: [],
+        fallsThrough: true,
+        doc,
+    }
+}
+
+const buildClass = (javaClass: RosettaJavaClass): LuaClass => {
+    const name = javaClass.name
+    const doc = buildDoc(javaClass.notes, javaClass.deprecated)
+    if (javaClass.extendz) {
+        doc.base = toLuaType({ basic: javaClass.extendz })
+    }
+
+    for (const [fieldName, field] of Object.entries(javaClass.fields ?? {})) {
+        doc.fields[fieldName] = {
+            name: fieldName,
+            type: toLuaType(field.type),
+            notes: field.notes?.trim() || undefined,
+        }
+    }
+
+    const methods: LuaFunction[] = []
+    const functions: LuaFunction[] = []
+    for (const [methodName, cluster] of Object.entries(javaClass.methods ?? {})) {
+        const instance = cluster.methods.filter(x => !isStatic(x))
+        const statics = cluster.methods.filter(isStatic)
+
+        // a name can only be defined once, so instance overloads of a static method take self explicitly
+        if (statics.length > 0) {
+            functions.push(buildFunction(methodName, [...statics, ...instance], undefined, name))
+        } else if (instance.length > 0) {
+            methods.push(buildFunction(methodName, instance))
+        }
+    }
+
+    if (javaClass.constructors && javaClass.constructors.length > 0) {
+        functions.push(buildFunction('new', javaClass.constructors, name))
+    }
+
+    return {
+        name,
+        fields: {},
+        methods,
+        functions,
+        statics: [],
+        constructorType: name,
+        doc,
+    }
+}
+
+const createSource = (): LuaSourceInfo => ({
+    classes: {},
+    extensions: {},
+    functions: [],
+    locals: {},
+    localAssigns: [],
+    moduleReturns: [],
+    globalReferences: [],
+    hooks: [],
+    events: [],
+})
+
+/**
+ * Gets the Java classes described by Rosetta, with the namespace of each.
+ */
+export const getJavaClasses = (rosetta: Rosetta): [string, RosettaJavaClass][] => {
+    const namespaces: { [name: string]: RosettaJavaNamespace } = (rosetta as Rosetta & RosettaJavaNamespaces).namespaces ?? {}
+
+    const classes: [string, RosettaJavaClass][] = []
+    for (const [namespace, info] of Object.entries(namespaces)) {
+        for (const javaClass of Object.values(info.classes ?? {})) {
+            classes.push([namespace, javaClass])
+        }
+    }
+
+    return classes
+}
+
+/**
+ * Builds source info for the global functions exposed by Java.
+ */
+export const buildGlobalSource = (rosetta: Rosetta): LuaSourceInfo => {
+    const result = createSource()
+
+    for (const [_, javaClass] of getJavaClasses(rosetta)) {
+        if (javaClass.name !== GLOBAL_CLASS) continue
+
+        for (const [name, cluster] of Object.entries(javaClass.methods ?? {})) {
+            const statics = cluster.methods.filter(isStatic)
+            if (statics.length === 0) continue
+
+            result.functions.push(buildFunction(name, statics))
+        }
+    }
+
+    result.functions.sort((a, b) => a.name.localeCompare(b.name))
+    return result
+}
+
+/**
+ * Builds source info for an exposed Java class.
+ */
+export const buildJavaSource = (javaClass: RosettaJavaClass): LuaSourceInfo => {
+    const result = createSource()
+    result.classes[javaClass.name] = buildClass(javaClass)
+
+    return result
+}
+
+export const annotateJava = async (options: JavaAnnotateArgs) => {
+    let failed = false
+    const rosetta = loadRosetta(options, message => {
+        console.error(message)
+        failed = true
+    })
+
+    // there would be nothing to annotate
+    if (failed) {
+        process.exitCode = 1
+        return
+    }
+
+    const outDir = path.resolve(options.out)
+    const errors: string[] = []
+
+    const write = async (filename: string, outputPath: string, result: LuaSourceInfo) => {
+        const content = annotate(rosetta, result, filename, options)
+        if (await writeOutputFile(outputPath, content, errors) && options.verbose) {
+            console.log(`Wrote ${outputPath}`)
+        }
+    }
+
+    for (const [namespace, javaClass] of getJavaClasses(rosetta)) {
+        if (javaClass.name === GLOBAL_CLASS) continue
+
+        const outputPath = path.join(outDir, ...namespace.split('.').filter(x => x), javaClass.name + '.lua')
+        await write(javaClass.name, outputPath, buildJavaSource(javaClass))
+    }
+
+    await write(GLOBAL_FILENAME, path.join(outDir, GLOBAL_FILENAME + '.lua'), buildGlobalSource(rosetta))
+
+    for (const error of errors) {
+        console.error(error)
+    }
+}
@@ -0,0 +1,203 @@
+import fs from 'fs'
+import path from 'path'
+import YAML from 'yaml'
+
+import { annotate } from './annotator'
+import { AnnotateArgs } from './types'
+import {
+    RosettaClassData,
+    RosettaConstructorData,
+    RosettaFieldData,
+    RosettaParameterData,
+    RosettaReturnData,
+    isObject,
+} from './scaffold'
+import { LuaClass, LuaDocComment, LuaDocTag, LuaFunction, LuaSourceInfo } from './parser/types'
+
+import { Rosetta } from 'pz-rosetta-ts/lib/asledgehammer/rosetta/Rosetta'
+
+const KAHLUA_FILE = 'kahlua.yml'
+const KAHLUA_FILENAME = '__kahlua'
+
+// the definitions aren't a module, so they can't be required by their filename
+const KAHLUA_META = '---@meta _'
+
+// standard library tables, which are extended rather than defined
+const LUA_LIBRARIES = ['coroutine', 'debug', 'io', 'math', 'os', 'string', 'table']
+
+interface KahluaFunctionData extends RosettaConstructorData {
+    // unlike Rosetta, multiple return values are allowed
+    returns?: RosettaReturnData | RosettaReturnData[]
+    overloads?: string[]
+}
+
+interface KahluaClassData extends Omit<RosettaClassData, 'methods' | 'functions'> {
+    /** Set for types which have no global table. */
+    local?: boolean
+
+    /** Globals assigned to fields of the table, by field name. */
+    aliases?: { [name: string]: string }
+    methods?: { [name: string]: KahluaFunctionData }
+    functions?: { [name: string]: KahluaFunctionData }
+}
+
+/**
+ * The layout of the Kahlua definitions, which follows Rosetta files.
+ */
+interface KahluaFileData {
+    languages?: {
+        lua?: {
+            luaClasses?: { [name: string]: KahluaClassData | null }
+            functions?: { [name: string]: KahluaFunctionData }
+        }
+    }
+}
+
+/**
+ * Reads the definitions of the Kahlua globals.
+ */
+export const readKahluaDefinitions = (): Buffer => {
+    return fs.readFileSync(path.join(__dirname, KAHLUA_FILE))
+}
+
+const buildDoc = (data: { notes?: string, deprecated?: boolean }): LuaDocComment => {
+    const notes = data.notes?.trim()
+
+    return {
+        description: notes ? notes.split('\n') : [],
+        params: {},
+        returns: [],
+        fields: {},
+        tags: data.deprecated ? ['@deprecated'] : [],
+    }
+}
+
+const buildTag = (data: RosettaParameterData | RosettaReturnData | RosettaFieldData, name?: string): LuaDocTag => {
+    return {
+        name,
+        type: data.type?.trim() || 'any',
+        notes: data.notes?.trim() || undefined,
+    }
+}
+
+const buildFunction = (name: string, data: KahluaFunctionData): LuaFunction => {
+    const doc = buildDoc(data)
+
+    const parameters: string[] = []
+    for (const param of data.parameters ?? []) {
+        parameters.push(param.name)
+        doc.params[param.name] = buildTag(param, param.name)
+    }
+
+    const returns = Array.isArray(data.returns) ? data.returns : data.returns ? [data.returns] : []
+    doc.returns = returns.map(ret => buildTag(ret))
+    doc.tags.push(...(data.overloads ?? []).map(x => `@overload ${x}`))
+
+    return {
+        name,
+        parameters,
+        parameterHints: {},
+        returns: [],
+        fallsThrough: true,
+        doc,
+    }
+}
+
+const buildFunctions = (data: { [name: string]: KahluaFunctionData | null } | undefined, prefix = ''): LuaFunction[] => {
+    if (!isObject(data)) return []
+    return Object.entries(data).map(([name, func]) => buildFunction(prefix + name, func ?? {}))
+}
+
+const buildClass = (name: string, data: KahluaClassData | null): LuaClass => {
+    const doc = buildDoc(data ?? {})
+    for (const [field, value] of Object.entries(data?.fields ?? {})) {
+        doc.fields[field] = buildTag(value ?? {}, field)
+    }
+
+    return {
+        name,
+        fields: {},
+        methods: buildFunctions(data?.methods),
+        functions: buildFunctions(data?.functions),
+        statics: [],
+        generated: data?.local ? true : undefined,
+        localName: data?.local ? name : undefined,
+        doc,
+    }
+}
+
+/**
+ * Builds the assignments of aliased globals, such as `table.pairs = pairs`.
+ */
+const buildAliases = (data: KahluaFileData): string[] => {
+    const aliases: string[] = []
+    for (const [name, cls] of Object.entries(data.languages?.lua?.luaClasses ?? {})) {
+        for (const [field, target] of Object.entries(cls?.aliases ?? {})) {
+            aliases.push(`${name}.${field} = ${target}`)
+        }
+    }
+
+    return aliases
+}
+
+/**
+ * Builds source info for the Kahlua definitions, as if they were read from annotated Lua.
+ */
+export const buildKahluaSource = (data: KahluaFileData): LuaSourceInfo => {
+    const lua = data.languages?.lua ?? {}
+
+    const result: LuaSourceInfo = {
+        classes: {},
+        extensions: {},
+        functions: [],
+        locals: {},
+        localAssigns: [],
+        moduleReturns: [],
+        globalReferences: [],
+        hooks: [],
+        events: [],
+    }
+
+    for (const [name, cls] of Object.entries(lua.luaClasses ?? {})) {
+        if (LUA_LIBRARIES.includes(name)) {
+            result.functions.push(...buildFunctions(cls?.functions, `${name}.`))
+        } else {
+            result.classes[name] = buildClass(name, cls)
+        }
+    }
+
+    result.functions.push(...buildFunctions(lua.functions))
+
+    return result
+}
+
+/**
+ * Renders the Kahlua definitions as annotations.
+ * @param content The content of the definitions file.
+ */
+export const annotateKahlua = (
+    rosetta: Rosetta,
+    content: Buffer,
+    args: AnnotateArgs,
+    errors: string[]
+): string | undefined => {
+    let data: unknown
+    try {
+        data = YAML.parse(content.toString())
+    } catch (e) {
+        errors.push(`Failed to read Kahlua definitions: ${e}`)
+        return
+    }
+
+    if (!isObject(data)) {
+        errors.push('Failed to read Kahlua definitions: expected an object')
+        return
+    }
+
+    const definitions = data as KahluaFileData
+    const aliases = buildAliases(definitions)
+    const annotated = annotate(rosetta, buildKahluaSource(definitions), KAHLUA_FILENAME, args)
+        .replace(/^---@meta\n/, `${KAHLUA_META}\n`)
+
+    return aliases.length > 0 ? `${annotated}\n${aliases.join('\n')}\n` : annotated
+}
@@ -1,108 +1,101 @@
 import fs from 'fs'
+import os from 'os'
 import path from 'path'
 import yargs from 'yargs'
 import { hideBin } from 'yargs/helpers'
+import { isMainThread } from 'worker_threads'
 
+import { VERSION } from './version'
 import { AnnotateArgs } from './types'
-import { annotate } from './annotator'
-import { parse } from './parser'
-
-import { Rosetta } from 'pz-rosetta-ts/lib/asledgehammer/rosetta/Rosetta'
-
-const annotateFiles = async (options: AnnotateArgs) => {
-
-    const rosetta = new Rosetta()
-
-    try {
-        rosetta.load('assets/rosetta')
-    } catch (e) {
-        console.log(`Failed to load rosetta; creating fallback annotations. ${e}`)
+import { annotateFiles } from './pipeline'
+import { watchFiles } from './watch'
+import { scaffoldRosetta } from './scaffold'
+import { checkRosetta } from './drift'
+import { dumpApi } from './dump'
+import { checkEnvironments } from './references'
+import { annotateJava } from './java'
+import { annotateEvents } from './events'
+import { runWorker } from './worker'
+
+const runAnnotate = async (options: AnnotateArgs) => {
+    if (options.in.length > 1) {
+        // later directories extend the classes of earlier ones
+        options.project = true
     }
 
-    // TODO: ultimately will be replaced with YAML definition
-    const kahlua = fs.readFileSync(path.join(__dirname, 'kahlua.lua'))
-
-    const inDir = path.resolve(options.in)
-    const outDir = path.resolve(options.out)
-
-    const errors = []
+    const result = await annotateFiles(options)
 
-    const stack = [inDir]
-    while (stack.length > 0) {
-        const dirPath = stack.pop()!
-
-        let dir: fs.Dir
-        try {
-            dir = await fs.promises.opendir(dirPath)
-        } catch (e) {
-            errors.push(`Failed to open directory: ${dirPath}`)
-            continue
-        }
-
-        for await (const fileOrDirectory of dir) {
-            const fullPath = path.join(dirPath, fileOrDirectory.name)
-            if (fileOrDirectory.isDirectory()) {
-                stack.push(fullPath)
-                continue
-            } else if (!fileOrDirectory.isFile() || path.extname(fullPath) !== '.lua') {
-                continue
-            }
-
-            let content
-            try {
-                const file = await fs.promises.open(fullPath)
-                content = await file.readFile('utf-8')
-                await file.close()
-            } catch (e) {
-                errors.push(`Failed to read file: ${fullPath}`)
-                continue
-            }
-
-            const parsed = parse(content)
-            if (!parsed.success) {
-                errors.push(`Failed to parse file: ${fullPath}`)
-                continue
-            }
-
-            const annotated = annotate(rosetta, parsed.result, path.basename(fullPath, '.lua'), options)
-            const outputPath = path.join(outDir, path.relative(inDir, fullPath))
-            try {
-                await fs.promises.mkdir(path.dirname(outputPath), { recursive: true })
-                await fs.promises.writeFile(outputPath, annotated, { flag: 'w' })
-            } catch (e) {
-                errors.push(`Failed to create file: ${outputPath}`)
-                continue
-            }
-        }
-    }
-
-    if (options['include-kahlua']) {
-        const outputPath = path.join(outDir, '__kahlua.lua')
-
-        try {
-            await fs.promises.mkdir(path.dirname(outputPath), { recursive: true })
-            await fs.promises.writeFile(outputPath, kahlua, { flag: 'w' })
-        } catch (e) {
-            errors.push(`Failed to create file: ${outputPath}`)
-        }
-    }
-
-    for (const error of errors) {
-        console.error(error)
+    if (options.watch) {
+        await watchFiles(options, result)
     }
 }
 
-yargs(hideBin(process.argv))
-    .version('0.0.0')
+const main = () => yargs(hideBin(process.argv))
+    .version(VERSION)
     .scriptName('pz-luadoc')
     .command('annotate', 'Annotate the files in a given directory',
         (yargs: yargs.Argv) => {
             return yargs
-                .option('in', { type: 'string', alias: 'i', required: true })
+                .option('in', { type: 'string', array: true, alias: 'i', required: true, describe: 'Input directories, in priority order' })
                 .option('out', { type: 'string', alias: 'o', required: true })
                 .option('verbose', { type: 'boolean', alias: 'v' })
                 .option('include-kahlua', { type: 'boolean', alias: 'k' })
                 .option('strict-fields', { type: 'boolean' })
+                .option('project', { type: 'boolean', alias: 'p', describe: 'Resolve classes across files before annotating; implied by more than one input directory' })
+                .option('rosetta', { type: 'string', alias: 'r', default: 'assets/rosetta' })
+                .option('watch', { type: 'boolean', alias: 'w', describe: 'Regenerate annotations when files change' })
+                .option('cache', { type: 'string', describe: 'Directory to cache results in, to skip unchanged files' })
+                .option('split-environments', { type: 'boolean', describe: 'Write separate client and server libraries, each including shared files' })
+                .option('format', { choices: ['lua', 'dts'] as const, default: 'lua' as const, describe: 'Output LuaLS stubs or TypeScript declarations' })
+                .option('check', { type: 'boolean', describe: 'Compare annotations with the output directory without writing' })
+                .conflicts('check', 'watch')
+                .option('jobs', { type: 'number', alias: 'j', default: os.cpus().length, describe: 'Number of worker threads to use' })
+                .check(args => {
+                    for (const inDir of args.in) {
+                        if (!fs.existsSync(path.resolve(inDir))) {
+                            return `Input directory does not exist: ${inDir}`
+                        }
+                    }
+
+                    return true
+                })
+        },
+        runAnnotate
+    )
+    .command('annotate-java', 'Annotate the Java classes and global functions described by Rosetta',
+        (yargs: yargs.Argv) => {
+            return yargs
+                .option('out', { type: 'string', alias: 'o', required: true })
+                .option('rosetta', { type: 'string', alias: 'r', default: 'assets/rosetta' })
+                .option('verbose', { type: 'boolean', alias: 'v' })
+                .option('strict-fields', { type: 'boolean' })
+        },
+        annotateJava
+    )
+    .command('rosetta-scaffold', 'Generate Rosetta definitions for the files in a given directory',
+        (yargs: yargs.Argv) => {
+            return yargs
+                .option('in', { type: 'string', alias: 'i', required: true })
+                .option('out', { type: 'string', alias: 'o', required: true })
+                .option('verbose', { type: 'boolean', alias: 'v' })
+                .check(args => {
+                    const inDir = path.resolve(args.in)
+                    if (!fs.existsSync(inDir)) {
+                        return 'Input directory does not exist.'
+                    }
+
+                    return true
+                })
+        },
+        scaffoldRosetta
+    )
+    .command('rosetta-check', 'Report differences between Rosetta and the files in a given directory',
+        (yargs: yargs.Argv) => {
+            return yargs
+                .option('in', { type: 'string', alias: 'i', required: true })
+                .option('rosetta', { type: 'string', alias: 'r', default: 'assets/rosetta' })
+                .option('json', { type: 'boolean', describe: 'Output the report as JSON' })
+                .option('ignore-undocumented', { type: 'boolean', describe: 'Don\'t report members missing from Rosetta' })
                 .check(args => {
                     const inDir = path.resolve(args.in)
                     if (!fs.existsSync(inDir)) {
@@ -112,7 +105,65 @@ yargs(hideBin(process.argv))
                     return true
                 })
         },
-        annotateFiles
+        checkRosetta
+    )
+    .command('environment-check', 'Report client files using server-only names, and vice versa',
+        (yargs: yargs.Argv) => {
+            return yargs
+                .option('in', { type: 'string', alias: 'i', required: true })
+                .option('json', { type: 'boolean', describe: 'Output the report as JSON' })
+                .check(args => {
+                    const inDir = path.resolve(args.in)
+                    if (!fs.existsSync(inDir)) {
+                        return 'Input directory does not exist.'
+                    }
+
+                    return true
+                })
+        },
+        checkEnvironments
+    )
+    .command('dump', 'Write a JSON description of the API of the files in a given directory',
+        (yargs: yargs.Argv) => {
+            return yargs
+                .option('in', { type: 'string', alias: 'i', required: true })
+                .option('out', { type: 'string', alias: 'o', describe: 'Output file; defaults to stdout' })
+                .option('rosetta', { type: 'string', alias: 'r', default: 'assets/rosetta' })
+                .option('project', { type: 'boolean', alias: 'p', describe: 'Resolve classes across files' })
+                .check(args => {
+                    const inDir = path.resolve(args.in)
+                    if (!fs.existsSync(inDir)) {
+                        return 'Input directory does not exist.'
+                    }
+
+                    return true
+                })
+        },
+        dumpApi
+    )
+    .command('events', 'Write a stub of the events handled by the files in a given directory',
+        (yargs: yargs.Argv) => {
+            return yargs
+                .option('in', { type: 'string', alias: 'i', required: true })
+                .option('out', { type: 'string', alias: 'o', required: true, describe: 'Output file for the Events stub' })
+                .option('rosetta', { type: 'string', alias: 'r', default: 'assets/rosetta' })
+                .option('report', { type: 'string', describe: 'Output file for a JSON report of the files handling each event' })
+                .check(args => {
+                    const inDir = path.resolve(args.in)
+                    if (!fs.existsSync(inDir)) {
+                        return 'Input directory does not exist.'
+                    }
+
+                    return true
+                })
+        },
+        annotateEvents
     )
     .parseAsync()
     .catch(e => console.error(e))
+
+if (isMainThread) {
+    main()
+} else {
+    runWorker()
+}
@@ -0,0 +1,76 @@
+import path from 'path'
+
+import { ENVIRONMENTS } from './environment'
+import { LuaClass, LuaEnvironment, LuaSourceInfo } from './parser/types'
+
+/**
+ * Gets the path used to require a file, which is relative to its environment directory.
+ * @param relativePath The path of the file relative to the input directory.
+ */
+export const getRequirePath = (relativePath: string): string => {
+    const parts = relativePath.slice(0, -path.extname(relativePath).length).split(/[\\/]/)
+    if (parts.length > 1 && ENVIRONMENTS.includes(parts[0] as LuaEnvironment)) {
+        parts.shift()
+    }
+
+    return parts.join('/')
+}
+
+/**
+ * Gets the local class a file returns as its module, if any.
+ */
+export const getModuleClass = (info: LuaSourceInfo): LuaClass | undefined => {
+    if (info.moduleReturns.length !== 1) return
+
+    const expr = info.moduleReturns[0]
+    if (expr.type !== 'Identifier') return
+
+    const cls = info.classes[expr.name]
+    return cls?.localName === expr.name ? cls : undefined
+}
+
+/**
+ * Gets the class name of a module, with each segment of its require path made a valid identifier.
+ */
+const getModuleName = (requirePath: string): string => {
+    return requirePath
+        .split('/')
+        .map(x => x.replace(/\W/g, '_').replace(/^(?=\d)/, '_'))
+        .join('.')
+}
+
+/**
+ * Names the local classes of a file after its require path.
+ * The returned table takes the name of the module, and other local tables are nested in it.
+ */
+export const setModuleClassNames = (info: LuaSourceInfo, requirePath: string) => {
+    let moduleName = getModuleName(requirePath)
+    const returned = getModuleClass(info)
+
+    // the module is prefixed so its classes aren't merged into a global class of the file
+    const root = moduleName.split('.')[0]
+    if (Object.values(info.classes).some(x => !x.localName && x.name === root)) {
+        moduleName = `_${moduleName}`
+    }
+
+    const names = new Map<string, string>()
+    for (const cls of Object.values(info.classes)) {
+        if (!cls.localName) continue
+
+        cls.name = cls === returned ? moduleName : `${moduleName}.${cls.localName}`
+        names.set(cls.localName, cls.name)
+    }
+
+    // classes in the file may refer to them by their local names
+    for (const cls of Object.values(info.classes)) {
+        if (cls.base && names.has(cls.base)) {
+            cls.base = names.get(cls.base)
+        }
+
+        if (cls.constructorType && names.has(cls.constructorType)) {
+            cls.constructorType = names.get(cls.constructorType)
+        }
+
+        cls.mixins = cls.mixins?.map(x => names.get(x) ?? x)
+    }
+}
@@ -0,0 +1,186 @@
+import ast from 'luaparse'
+import { LuaDocComment, LuaDocTag } from './types'
+
+const separatorRegexp = /^[-=*#~_+\s]*$/
+const scopeRegexp = /^(public|private|protected|package)\s+/
+
+/**
+ * Reads a LuaLS type from the start of a string.
+ * @returns The type and the remaining text.
+ */
+export const readDocType = (text: string): [string, string] => {
+    text = text.trim()
+
+    let depth = 0
+    let i = 0
+    for (; i < text.length; i++) {
+        const c = text[i]
+        if ('(<{['.indexOf(c) !== -1) {
+            depth++
+        } else if (')>}]'.indexOf(c) !== -1) {
+            depth--
+        } else if (depth === 0 && /\s/.test(c)) {
+            // continue across unions and function return types
+            const before = text.slice(0, i).trimEnd()
+            const after = text.slice(i).trimStart()
+            if (/[|:,]$/.test(before) || /^[|:]/.test(after)) continue
+
+            break
+        }
+    }
+
+    return [text.slice(0, i).trim(), text.slice(i).trim()]
+}
+
+const readNotes = (text: string): string | undefined => {
+    text = text.replace(/^#\s*/, '').trim()
+    return text.length > 0 ? text : undefined
+}
+
+const readNamedTag = (text: string): LuaDocTag | undefined => {
+    const match = text.match(/^([\w.]+|\.\.\.)(\??)\s+(.*)$/)
+    if (!match) return
+
+    const [type, rest] = readDocType(match[3])
+
+    return {
+        name: match[1],
+        type,
+        notes: readNotes(rest),
+        optional: match[2] === '?' ? true : undefined,
+    }
+}
+
+/**
+ * Parses the lines of a LuaDoc or EmmyLua comment block.
+ * Lines without a tag are treated as the description.
+ */
+export const parseDocComment = (lines: string[]): LuaDocComment => {
+    const doc: LuaDocComment = {
+        description: [],
+        params: {},
+        returns: [],
+        fields: {},
+        tags: [],
+    }
+
+    for (let line of lines) {
+        // strip leading dashes of --- comments
+        line = line.replace(/^-*\s?/, '').trimEnd()
+
+        if (!line.startsWith('@')) {
+            if (!separatorRegexp.test(line) || doc.description.length > 0) {
+                doc.description.push(line)
+            }
+
+            continue
+        }
+
+        const space = line.search(/\s/)
+        const tag = space === -1 ? line.slice(1) : line.slice(1, space)
+        const content = space === -1 ? '' : line.slice(space + 1).trim()
+
+        switch (tag) {
+            case 'param':
+                const param = readNamedTag(content)
+                if (param) {
+                    doc.params[param.name!] = param
+                }
+
+                break
+            case 'return':
+                const [type, rest] = readDocType(content)
+                if (type) {
+                    doc.returns.push({ type, notes: readNotes(rest) })
+                }
+
+                break
+            case 'field':
+                const field = readNamedTag(content.replace(scopeRegexp, ''))
+                if (field) {
+                    doc.fields[field.name!] = field
+                }
+
+                break
+            case 'class':
+                const colon = content.indexOf(':')
+                if (colon !== -1) {
+                    doc.base = content.slice(colon + 1).trim()
+                }
+
+                break
+            case 'type':
+                doc.type = readDocType(content)[0]
+                break
+            case 'meta':
+            case 'diagnostic':
+                // file-level tags
+                break
+            default:
+                doc.tags.push(line)
+        }
+    }
+
+    // trailing separators and blank lines
+    while (doc.description.length > 0 && separatorRegexp.test(doc.description[doc.description.length - 1])) {
+        doc.description.pop()
+    }
+
+    return doc
+}
+
+/**
+ * Associates doc comments with the nodes they precede.
+ * Only `---` comments are doc comments; plain comments are often commented-out code.
+ */
+export class CommentMap {
+    private byEndLine: { [line: number]: ast.Comment }
+
+    constructor(comments: ast.Comment[], source: string) {
+        this.byEndLine = {}
+
+        const lines = source.split('\n')
+        for (const comment of comments) {
+            if (!comment.loc) continue
+
+            if (!comment.raw.startsWith('---')) continue
+
+            // ignore comments that trail code
+            const { line, column } = comment.loc.start
+            if (lines[line - 1].slice(0, column).trim() !== '') continue
+
+            this.byEndLine[comment.loc.end.line] = comment
+        }
+    }
+
+    /**
+     * Gets the comment block that immediately precedes a node.
+     */
+    getDocComment(node: ast.Node): LuaDocComment | undefined {
+        if (!node.loc) return
+
+        const lines: string[] = []
+
+        let line = node.loc.start.line - 1
+        let comment = this.byEndLine[line]
+        while (comment) {
+            lines.unshift(comment.value)
+
+            line = comment.loc!.start.line - 1
+            comment = this.byEndLine[line]
+        }
+
+        if (lines.length === 0) return
+
+        const doc = parseDocComment(lines)
+        const isEmpty = doc.description.length === 0
+            && doc.tags.length === 0
+            && doc.returns.length === 0
+            && Object.keys(doc.params).length === 0
+            && Object.keys(doc.fields).length === 0
+            && !doc.type
+            && !doc.base
+
+        return isEmpty ? undefined : doc
+    }
+}
@@ -2,14 +2,25 @@ import ast from 'luaparse'
 
 import {
     findIdentifierReferences,
+    getDottedName,
+    getEnumKind,
+    getFunctionReturns,
     getIdentifierBase,
+    getLocation,
+    getParameterHints,
+    getParameterList,
 } from './utils'
 
+import { CommentMap } from './comments'
+
 import {
     LuaAssignment,
     LuaClass,
+    LuaDocComment,
+    LuaEventHandler,
     LuaField,
     LuaFunction,
+    LuaHook,
     LuaLocal,
     LuaSourceInfo
 } from './types'
@@ -26,6 +37,7 @@ type ClassTable<T> = {
 
 
 export class ParseContext {
+    private comments?: CommentMap
     private aliases: { [name: string]: string }
     private classes: { [cls: string]: LuaClass }
 
@@ -36,20 +48,39 @@ export class ParseContext {
     private methods: ClassList<LuaFunction>
     private memberFunctions: ClassList<LuaFunction>
     private fields: ClassTable<LuaField>
+    private extensionStatics: ClassList<LuaAssignment>
+    private mixins: ClassList<string>
     private moduleReturns?: ast.Expression[]
-
-    constructor() {
+    private globalReferences: string[]
+    private originals: { [name: string]: string }
+    private hooks: LuaHook[]
+    private events: LuaEventHandler[]
+    private namespaces: { [cls: string]: LuaAssignment }
+    private statement?: ast.Statement
+
+    constructor(comments?: CommentMap) {
+        this.comments = comments
         this.aliases = {}
         this.classes = {}
         this.locals = {}
         this.localAssigns = []
+        this.globalReferences = []
+        this.originals = {}
+        this.hooks = []
+        this.events = []
+        this.namespaces = {}
         this.functions = []
         this.methods = {}
         this.memberFunctions = {}
         this.fields = {}
+        this.extensionStatics = {}
+        this.mixins = {}
     }
 
     result(): LuaSourceInfo {
+        this.removeEmptyNamespaces()
+        this.addLocalClasses()
+
         for (const cls of Object.values(this.classes)) {
             if (this.fields[cls.name]) {
                 cls.fields = this.fields[cls.name]
@@ -62,17 +93,135 @@ export class ParseContext {
             if (this.methods[cls.name]) {
                 cls.methods = this.methods[cls.name]
             }
+
+            if (this.mixins[cls.name]) {
+                cls.mixins = this.getMixins(cls.name)
+            }
+
+            // only annotated as an enum if nothing else is added to the table
+            if (cls.init && !cls.base) {
+                cls.enum = getEnumKind(cls.init)
+            }
         }
 
         return {
             classes: this.classes,
+            extensions: this.getExtensions(),
             functions: this.functions,
             locals: this.locals,
             localAssigns: this.localAssigns,
-            moduleReturns: this.moduleReturns ?? []
+            moduleReturns: this.moduleReturns ?? [],
+            globalReferences: this.globalReferences,
+            hooks: this.hooks,
+
+            // handlers within functions are found after those in the enclosing block
+            events: this.events.sort((a, b) => (a.location?.line ?? 0) - (b.location?.line ?? 0)),
         }
     }
 
+    /**
+     * Turns nested tables which nothing was added to back into statics of their parent.
+     */
+    removeEmptyNamespaces() {
+        const names = Object.keys(this.classes)
+        for (const [name, assign] of Object.entries(this.namespaces)) {
+            if (this.fields[name] || this.memberFunctions[name] || this.methods[name]) continue
+            if (this.classes[name].statics.length > 0) continue
+            if (names.some(x => x.startsWith(`${name}.`))) continue
+
+            delete this.classes[name]
+
+            const parent = this.classes[assign.base]
+            if (!parent) continue
+
+            // keep statics in source order
+            parent.statics.push(assign)
+            parent.statics.sort((a, b) => (a.variable.loc?.start.line ?? 0) - (b.variable.loc?.start.line ?? 0))
+        }
+    }
+
+    /**
+     * Turns local tables which are returned from the module or have functions added to them into classes.
+     */
+    addLocalClasses() {
+        for (const local of Object.values(this.locals)) {
+            const name = local.name
+            if (local.init.type !== 'TableConstructorExpression' || this.hasClass(name)) continue
+
+            const isReturned = this.moduleReturns?.some(x => x.type === 'Identifier' && x.name === name)
+            if (!isReturned && !this.memberFunctions[name] && !this.methods[name]) continue
+
+            const cls = this.createClass(name, undefined, local.init)
+            cls.localName = name
+            cls.location = getLocation(local.init)
+            cls.doc = this.getDocComment(local.init)
+
+            // assignments to the local are statics of the class
+            cls.statics = this.localAssigns
+                .filter(x => x.base === name)
+                .map(x => ({ ...x, enum: getEnumKind(x.init) }))
+
+            this.localAssigns = this.localAssigns.filter(x => x.base !== name)
+
+            // the class is written in place of the local, so it needs the same locals
+            this.addLocalReference(name)
+        }
+    }
+
+    /**
+     * Collects members which were added to classes that aren't defined in this file.
+     */
+    getExtensions(): { [cls: string]: LuaClass } {
+        const extensions: { [cls: string]: LuaClass } = {}
+        const getExtension = (name: string) => {
+            if (!extensions[name]) {
+                extensions[name] = {
+                    name,
+                    fields: {},
+                    methods: [],
+                    functions: [],
+                    statics: []
+                }
+            }
+
+            return extensions[name]
+        }
+
+        for (const [name, fields] of Object.entries(this.fields)) {
+            if (this.hasClass(name) || this.hasLocal(name)) continue
+            getExtension(name).fields = fields
+        }
+
+        for (const [name, functions] of Object.entries(this.memberFunctions)) {
+            if (this.hasClass(name) || this.hasLocal(name)) continue
+            getExtension(name).functions = functions
+        }
+
+        for (const [name, methods] of Object.entries(this.methods)) {
+            if (this.hasClass(name) || this.hasLocal(name)) continue
+            getExtension(name).methods = methods
+        }
+
+        for (const [name, statics] of Object.entries(this.extensionStatics)) {
+            getExtension(name).statics = statics
+        }
+
+        for (const name of Object.keys(this.mixins)) {
+            if (this.hasClass(name) || this.hasLocal(name)) continue
+
+            const mixins = this.getMixins(name)
+            if (mixins.length > 0) {
+                getExtension(name).mixins = mixins
+            }
+        }
+
+        return extensions
+    }
+
+    setGlobalReferences(names: string[]) {
+        this.globalReferences = [...new Set(names)].sort()
+    }
+
     setModuleReturns(expressions: ast.Expression[]) {
         this.moduleReturns = expressions
 
@@ -83,10 +232,57 @@ export class ParseContext {
         }
     }
 
+    /**
+     * Sets the top-level statement being parsed, used as the location of classes.
+     */
+    setStatement(statement: ast.Statement) {
+        this.statement = statement
+    }
+
     addAlias(name: string, alias: string) {
         this.aliases[name] = alias
     }
 
+    /**
+     * Records a local which saves a function before it's redefined.
+     * @param cls The class of a member function.
+     */
+    addOriginal(local: string, name: string, cls?: string) {
+        this.originals[local] = cls ? `${this.resolveAlias(cls)}.${name}` : name
+    }
+
+    addHook(name: string, expr: ast.FunctionDeclaration, isMethod: boolean, cls?: string) {
+        const hook: LuaHook = {
+            cls: cls ? this.resolveAlias(cls) : undefined,
+            name,
+            isMethod,
+            location: getLocation(expr),
+        }
+
+        this.hooks.push(hook)
+        return hook
+    }
+
+    /**
+     * Adds a table nested in a class, such as `A.B = {}`.
+     * If nothing is added to it, it's a static of its parent instead.
+     */
+    addNamespace(variable: ast.MemberExpression, parent: string, init: ast.Expression, doc?: LuaDocComment) {
+        const name = this.resolveAlias(`${parent}.${variable.identifier.name}`)
+        const cls = this.addClass(name, undefined, init)
+        if (!cls) return
+
+        this.namespaces[name] = {
+            base: this.resolveAlias(parent),
+            variable,
+            init,
+            doc,
+            enum: getEnumKind(init),
+        }
+
+        return cls
+    }
+
     addClass(name: string, base?: string, init?: ast.Expression) {
         name = this.resolveAlias(name)
 
@@ -103,6 +299,10 @@ export class ParseContext {
             return
         }
 
+        return this.createClass(name, base, init)
+    }
+
+    private createClass(name: string, base?: string, init?: ast.Expression) {
         const cls: LuaClass = {
             name,
             base,
@@ -110,7 +310,8 @@ export class ParseContext {
             fields: {},
             methods: [],
             functions: [],
-            statics: []
+            statics: [],
+            location: getLocation(this.statement ?? init),
         }
 
         this.classes[name] = cls
@@ -121,7 +322,7 @@ export class ParseContext {
         if (init.type === 'TableConstructorExpression') {
             for (const field of init.fields) {
                 if (field.type !== 'TableKeyString') continue
-                this.addField(name, field.key.name, true)
+                this.addField(name, field.key.name, field.value, true, this.getDocComment(field))
             }
         }
 
@@ -132,28 +333,69 @@ export class ParseContext {
         return cls
     }
 
-    addField(cls: string, name: string, inInitializer: boolean = false) {
+    /**
+     * Records a handler added to an event.
+     * @param call The call which adds the handler, used as its location.
+     */
+    addEventHandler(event: string, handler: ast.Expression, call: ast.Expression) {
+        const eventHandler: LuaEventHandler = {
+            event,
+            location: getLocation(call),
+        }
+
+        if (handler.type === 'FunctionDeclaration') {
+            eventHandler.parameters = getParameterList(handler.parameters)
+        } else if (handler.type === 'Identifier') {
+            eventHandler.handler = handler.name
+            eventHandler.parameters = this.getFunctionParameters(handler.name)
+        } else if (handler.type === 'MemberExpression') {
+            const cls = getDottedName(handler.base)
+            if (cls) {
+                eventHandler.handler = `${cls}.${handler.identifier.name}`
+                eventHandler.parameters = this.getFunctionParameters(handler.identifier.name, cls)
+            }
+        }
+
+        this.events.push(eventHandler)
+        return eventHandler
+    }
+
+    addField(cls: string, name: string, value?: ast.Expression, inInitializer: boolean = false, doc?: LuaDocComment) {
         cls = this.resolveAlias(cls)
 
         if (!this.fields[cls]) {
             this.fields[cls] = {}
         }
 
-        if (this.fields[cls][name]) return
+        const existing = this.fields[cls][name]
+        if (existing) {
+            if (value) {
+                existing.values.push(value)
+            }
+
+            existing.doc ??= doc
+            return
+        }
 
         const field: LuaField = {
             name,
             inInitializer,
+            values: value ? [value] : [],
+            doc,
         }
 
         this.fields[cls][name] = field
         return field
     }
 
-    addFunction(name: string, parameters: string[]) {
+    addFunction(name: string, expr: ast.FunctionDeclaration) {
         const func: LuaFunction = {
             name,
-            parameters,
+            parameters: getParameterList(expr.parameters),
+            parameterHints: getParameterHints(expr),
+            ...getFunctionReturns(expr.body),
+            doc: this.getDocComment(expr),
+            location: getLocation(expr),
         }
 
         this.functions.push(func)
@@ -197,12 +439,16 @@ export class ParseContext {
         }
     }
 
-    addMemberFunction(cls: string, name: string, parameters: string[], isMethod?: boolean) {
+    addMemberFunction(cls: string, name: string, expr: ast.FunctionDeclaration, isMethod?: boolean) {
         cls = this.resolveAlias(cls)
 
         const func: LuaFunction = {
             name,
-            parameters,
+            parameters: getParameterList(expr.parameters),
+            parameterHints: getParameterHints(expr),
+            ...getFunctionReturns(expr.body),
+            doc: this.getDocComment(expr),
+            location: getLocation(expr),
         }
 
         const target = isMethod ? this.methods : this.memberFunctions
@@ -214,7 +460,24 @@ export class ParseContext {
         return func
     }
 
-    addStatic(cls: string, variable: ast.Expression, init: ast.Expression) {
+    /**
+     * Records a table whose members are added to a class, as if it were a base class.
+     */
+    addMixin(cls: string, mixin: string) {
+        cls = this.resolveAlias(cls)
+        mixin = this.resolveAlias(mixin)
+        if (cls === mixin) return
+
+        if (!this.mixins[cls]) {
+            this.mixins[cls] = []
+        }
+
+        if (!this.mixins[cls].includes(mixin)) {
+            this.mixins[cls].push(mixin)
+        }
+    }
+
+    addStatic(cls: string, variable: ast.Expression, init: ast.Expression, doc?: LuaDocComment) {
         const clsObj = this.classes[cls]
         if (!clsObj) {
             return
@@ -228,18 +491,88 @@ export class ParseContext {
             base: cls,
             variable,
             init,
+            doc,
+            enum: getEnumKind(init),
         })
     }
 
-    addAssignment(variable: ast.IndexExpression | ast.MemberExpression, init: ast.Expression) {
+    addAssignment(variable: ast.IndexExpression | ast.MemberExpression, init: ast.Expression, doc?: LuaDocComment) {
         const ident = getIdentifierBase(variable.base)
         if (!ident) return
 
+        const owner = this.getNestedOwner(variable.base)
+        if (owner) {
+            this.addStatic(owner, variable, init, doc)
+            return
+        }
+
         // TODO: unassociated non-local assignment → define global?
         if (this.hasClass(ident.name)) {
-            this.addStatic(ident.name, variable, init)
+            this.addStatic(ident.name, variable, init, doc)
         } else if (this.hasLocal(ident.name)) {
             this.addLocalAssign(ident.name, variable, init)
+        } else {
+            // may be a class from another file
+            const name = this.resolveAlias(ident.name)
+            if (!this.extensionStatics[name]) {
+                this.extensionStatics[name] = []
+            }
+
+            this.extensionStatics[name].push({
+                base: name,
+                variable,
+                init,
+                doc,
+                enum: getEnumKind(init),
+            })
+        }
+    }
+
+    /**
+     * Gets the parameters of a function defined earlier in the file.
+     * @param cls The class of a member function.
+     */
+    getFunctionParameters(name: string, cls?: string): string[] | undefined {
+        if (!cls) {
+            const local = this.locals[name]
+            if (local?.init.type === 'FunctionDeclaration') {
+                return getParameterList(local.init.parameters)
+            }
+
+            return this.functions.find(x => x.name === name)?.parameters
+        }
+
+        cls = this.resolveAlias(cls)
+        const func = this.memberFunctions[cls]?.find(x => x.name === name)
+        if (func) return func.parameters
+
+        // methods passed as functions receive the first argument as self
+        const method = this.methods[cls]?.find(x => x.name === name)
+        return method ? ['self', ...method.parameters] : undefined
+    }
+
+    getDocComment(node: ast.Node): LuaDocComment | undefined {
+        return this.comments?.getDocComment(node)
+    }
+
+    /**
+     * Gets the mixins of a class, excluding locals which aren't classes and so have no type.
+     */
+    getMixins(cls: string): string[] {
+        return this.mixins[cls].filter(x => this.hasClass(x) || !this.hasLocal(x))
+    }
+
+    /**
+     * Gets the innermost nested class which contains an expression such as `A.B.c`.
+     */
+    getNestedOwner(expr: ast.Expression): string | undefined {
+        const name = getDottedName(expr)
+        if (!name) return
+
+        const parts = this.resolveAlias(name).split('.')
+        for (; parts.length > 1; parts.pop()) {
+            const owner = parts.join('.')
+            if (this.hasClass(owner)) return owner
         }
     }
 
@@ -251,10 +584,37 @@ export class ParseContext {
         return this.locals[name] !== undefined
     }
 
+    isLocalTable(name: string) {
+        return this.locals[name]?.init.type === 'TableConstructorExpression'
+    }
+
+    /**
+     * Checks whether a function was saved to a local, so that redefining it hooks the original.
+     * @param cls The class of a member function.
+     */
+    isHooked(name: string, cls?: string) {
+        const target = cls ? `${this.resolveAlias(cls)}.${name}` : name
+        return Object.values(this.originals).includes(target)
+    }
+
     setClass(name: string, cls: LuaClass) {
         this.classes[name] = cls
     }
 
+    setClassDoc(name: string, doc?: LuaDocComment) {
+        const cls = this.classes[this.resolveAlias(name)]
+        if (!cls || cls.doc) return
+
+        cls.doc = doc
+    }
+
+    setDeriveName(name: string, deriveName: string) {
+        const cls = this.classes[this.resolveAlias(name)]
+        if (!cls) return
+
+        cls.deriveName = deriveName
+    }
+
     setClassBase(name: string, base: string) {
         const cls = this.classes[name]
         if (!cls) return
@@ -270,6 +630,12 @@ export class ParseContext {
     }
 
     resolveAlias(name: string): string {
+        // the first part of a nested name may be an alias
+        const dot = name.indexOf('.')
+        if (dot !== -1) {
+            return this.resolveAlias(name.slice(0, dot)) + name.slice(dot)
+        }
+
         const seen: Record<string, boolean> = {}
 
         // recursive alias should not occur, but be safe anyway
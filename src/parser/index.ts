@@ -1,30 +1,55 @@
 import ast from 'luaparse'
-import { ParseResult } from './types'
+import { LuaDocComment, ParseResult } from './types'
 import { ParseContext } from './context'
+import { CommentMap } from './comments'
 import {
+    addBodyToStack,
+    getDottedName,
+    getEnumKind,
     getIdentifierBase,
-    getParameterList,
+    getStringValue,
     sanitizeLua
 } from './utils'
 
-// TODO: module-level dependency calculation
-
-const addBodyToStack = (statement: ast.Statement, stack: ast.Statement[][]): void => {
-    switch (statement.type) {
-        case 'DoStatement':
-        case 'WhileStatement':
-        case 'RepeatStatement':
-        case 'ForGenericStatement':
-        case 'ForNumericStatement':
-            stack.push(statement.body)
-            break
-        case 'IfStatement':
-            for (const clause of statement.clauses) {
-                stack.push(clause.body)
-            }
+const isSetMetatableCall = (expr: ast.Expression): expr is ast.CallExpression => {
+    return expr.type === 'CallExpression' && expr.base.type === 'Identifier' && expr.base.name === 'setmetatable'
+}
 
-            break
+/**
+ * Checks whether an expression refers to the class of a constructor, as its name or `self`.
+ */
+const isClassReference = (cls: string, expr: ast.Expression): boolean => {
+    const name = getDottedName(expr)
+    return name === cls || name === 'self'
+}
+
+/**
+ * Checks whether a metatable makes tables instances of a class.
+ * Matches `Class`, `self`, and `{ __index = Class }`.
+ */
+const isInstanceMetatable = (cls: string, expr: ast.Expression): boolean => {
+    if (expr.type !== 'TableConstructorExpression') {
+        return isClassReference(cls, expr)
     }
+
+    if (expr.fields.length !== 1) return false
+
+    const field = expr.fields[0]
+    if (field.type === 'TableValue') return false
+    if (field.key.type !== 'Identifier' || field.key.name !== '__index') return false
+
+    return isClassReference(cls, field.value)
+}
+
+/**
+ * Gets the table that a call makes an instance of a class.
+ * Matches `setmetatable(o, Class)`, which can be used as a statement or as an expression.
+ */
+const getInstanceTarget = (cls: string, expr: ast.Expression): ast.Expression | undefined => {
+    if (!isSetMetatableCall(expr) || expr.arguments.length !== 2) return
+    if (!isInstanceMetatable(cls, expr.arguments[1])) return
+
+    return expr.arguments[0]
 }
 
 /**
@@ -43,7 +68,12 @@ const getConstructorReturns = (statements: ast.Statement[]): Set<string> => {
                     continue
                 }
 
-                const first = statement.arguments[0]
+                // return setmetatable(o, self)
+                let first = statement.arguments[0]
+                if (isSetMetatableCall(first) && first.arguments.length > 0) {
+                    first = first.arguments[0]
+                }
+
                 if (first.type !== 'Identifier') {
                     continue
                 }
@@ -68,21 +98,21 @@ const parseFunctionBody = (ctx: ParseContext, statements: ast.Statement[]) => {
 
             if (statement.type !== 'AssignmentStatement') continue
 
-            for (const variable of statement.variables) {
+            for (const [i, variable] of statement.variables.entries()) {
                 if (variable.type !== 'MemberExpression') continue
 
-                // check for Class.x = y
+                // check for Class.x = y; locals may become module classes
                 const base = variable.base
                 if (base.type !== 'Identifier') continue
 
                 const clsIdent = getIdentifierBase(base)
-                if (!clsIdent || !ctx.hasClass(clsIdent.name)) continue
+                if (!clsIdent || (!ctx.hasClass(clsIdent.name) && !ctx.isLocalTable(clsIdent.name))) continue
 
                 // ignore __index
                 const identifier = variable.identifier
                 if (identifier.name === '__index') continue
 
-                ctx.addField(clsIdent.name, identifier.name)
+                ctx.addField(clsIdent.name, identifier.name, statement.init[i], false, ctx.getDocComment(statement))
             }
         }
     }
@@ -97,7 +127,7 @@ const parseMethodBody = (ctx: ParseContext, cls: string, statements: ast.Stateme
         return
     }
 
-    let selfSet
+    let selfSet: Set<string> | undefined
     if (isConstructor) {
         selfSet = getConstructorReturns(statements)
     }
@@ -107,15 +137,30 @@ const parseMethodBody = (ctx: ParseContext, cls: string, statements: ast.Stateme
     const isNewFunction = isConstructor && !isMethod
 
     const stack = [ statements ]
-    const fields: string[] = []
-    const functions: [string, string[], boolean][] = []
+    const fields: [string, ast.Expression | undefined, LuaDocComment | undefined][] = []
+    const functions: [string, ast.FunctionDeclaration, boolean][] = []
+
+    // checks whether a setmetatable call makes a returned table an instance
+    const isInstanceCall = (expr: ast.Expression, variable?: ast.Identifier): boolean => {
+        const target = getInstanceTarget(cls, expr)
+        if (!target) return false
+        if (target.type === 'Identifier') return !!selfSet?.has(target.name)
+
+        // local o = setmetatable({}, self)
+        return target.type === 'TableConstructorExpression' && (!variable || !!selfSet?.has(variable.name))
+    }
 
     while (stack.length > 0) {
         const body = stack.pop()!
 
         for (const statement of body) {
             if (statement.type === 'AssignmentStatement') {
-                for (const variable of statement.variables) {
+                for (const [i, variable] of statement.variables.entries()) {
+                    // o = setmetatable(o, self)
+                    if (isNewFunction && variable.type === 'Identifier' && statement.init[i]) {
+                        confirmedInstance ||= isInstanceCall(statement.init[i], variable)
+                    }
+
                     if (variable.type !== 'MemberExpression') continue
 
                     // check for self.x = y
@@ -127,7 +172,7 @@ const parseMethodBody = (ctx: ParseContext, cls: string, statements: ast.Stateme
                     const identifier = variable.identifier
                     if (identifier.name === '__index') continue
 
-                    fields.push(identifier.name)
+                    fields.push([identifier.name, statement.init[i], ctx.getDocComment(statement)])
                 }
 
                 continue
@@ -136,34 +181,22 @@ const parseMethodBody = (ctx: ParseContext, cls: string, statements: ast.Stateme
             addBodyToStack(statement, stack)
             if (!isNewFunction) continue
 
-            if (statement.type === 'CallStatement' && !confirmedInstance) {
-                // check for setmetatable calls
-                if (statement.expression.type !== 'CallExpression') continue
-
-                const base = statement.expression.base
-                if (base.type !== 'Identifier' || base.name !== 'setmetatable') continue
-
-                const args = statement.expression.arguments
-                if (args.length !== 2) continue
-
-                const target = statement.expression.arguments[0]
-                if (target.type !== 'Identifier' || !selfSet?.has(target.name)) continue
-
-                const init = statement.expression.arguments[1]
-                if (init.type === 'TableConstructorExpression' && init.fields.length === 1) {
-                    const field = init.fields[0]
-                    if (field.type === 'TableValue') continue
-                    if (field.key.type !== 'Identifier') continue
-                    if (field.key.name !== '__index') continue
-                    if (field.value.type !== 'Identifier') continue
-
-                    confirmedInstance = field.value.name === cls
-                } else {
-                    confirmedInstance = init.type === 'Identifier' && init.name === cls
+            if (statement.type === 'CallStatement') {
+                // setmetatable(o, self)
+                confirmedInstance ||= isInstanceCall(statement.expression)
+            } else if (statement.type === 'ReturnStatement') {
+                // return setmetatable({}, self)
+                confirmedInstance ||= statement.arguments.length === 1 && isInstanceCall(statement.arguments[0])
+            } else if (statement.type === 'LocalStatement') {
+                // local o = setmetatable({}, self)
+                for (const [i, variable] of statement.variables.entries()) {
+                    const init = statement.init[i]
+                    confirmedInstance ||= !!init && isInstanceCall(init, variable)
                 }
-            } else if (statement.type === 'LocalStatement' && !baseType) {
+
                 // check for instance initialization to determine base type
-                if (statement.variables.length !== 1) continue 
+                if (baseType) continue
+                if (statement.variables.length !== 1) continue
                 if (statement.init.length !== 1) continue
                 if (!selfSet?.has(statement.variables[0].name)) continue
 
@@ -185,9 +218,7 @@ const parseMethodBody = (ctx: ParseContext, cls: string, statements: ast.Stateme
                 if (!selfSet?.has(base.name)) continue
 
                 const name = statement.identifier.identifier.name
-                const params = getParameterList(statement.parameters)
-
-                functions.push([name, params, statement.identifier.indexer === ':'])
+                functions.push([name, statement, statement.identifier.indexer === ':'])
             }
 
             continue
@@ -195,8 +226,8 @@ const parseMethodBody = (ctx: ParseContext, cls: string, statements: ast.Stateme
     }
 
     if (isNewFunction && !confirmedInstance) {
-        // not an instance; need a "fake" instance class
-        cls = `${cls}_Instance`
+        // not an instance; need a "fake" instance class, which is local so can't be nested
+        cls = `${cls.replace(/\./g, '_')}_Instance`
         const clsObj = ctx.addClass(cls, baseType)
 
         if (clsObj) {
@@ -204,12 +235,12 @@ const parseMethodBody = (ctx: ParseContext, cls: string, statements: ast.Stateme
         }
     }
 
-    for (const field of fields) {
-        ctx.addField(cls, field)
+    for (const [field, value, doc] of fields) {
+        ctx.addField(cls, field, value, false, doc)
     }
 
-    for (const [func, params, isMethod] of functions) {
-        ctx.addMemberFunction(cls, func, params, isMethod)
+    for (const [func, expr, isMethod] of functions) {
+        ctx.addMemberFunction(cls, func, expr, isMethod)
     }
 
     if (isConstructor) {
@@ -218,6 +249,8 @@ const parseMethodBody = (ctx: ParseContext, cls: string, statements: ast.Stateme
 }
 
 const parseAssignmentStatement = (ctx: ParseContext, expr: ast.AssignmentStatement) => {
+    const doc = ctx.getDocComment(expr)
+
     for (const [i, variable] of expr.variables.entries()) {
         const init = expr.init[i]
         if (!init) break
@@ -236,13 +269,12 @@ const parseAssignmentStatement = (ctx: ParseContext, expr: ast.AssignmentStateme
                         if (init.base.name !== 'require') return
                         const cls = ctx.addClass(variable.name, undefined, init)
                         if (cls) {
-                            // this only applies to SandboxVars; intentionally excluding for now
-                            // TODO: better support for SandboxVars
+                            // SandboxVars; its class is generated from the sandbox options instead
                             cls.noAnnotation = true
                         }
                         break
                     case 'CallExpression':
-                        parseAssignmentCall(ctx, variable, init)
+                        parseAssignmentCall(ctx, variable.name, init)
                         break
                     case 'FunctionDeclaration':
                         parseFunction(ctx, variable, init)
@@ -252,17 +284,16 @@ const parseAssignmentStatement = (ctx: ParseContext, expr: ast.AssignmentStateme
                         break
                 }
 
+                ctx.setClassDoc(variable.name, doc)
                 break
             case 'IndexExpression':
-                ctx.addAssignment(variable, init)
+                ctx.addAssignment(variable, init, doc)
                 break
             case 'MemberExpression':
-                switch (init.type) {
-                    case 'FunctionDeclaration':
-                        parseMemberFunction(ctx, variable, init)
-                        break
-                    default:
-                        ctx.addAssignment(variable, init)
+                if (init.type === 'FunctionDeclaration') {
+                    parseMemberFunction(ctx, variable, init)
+                } else if (!parseNestedClass(ctx, variable, init, doc)) {
+                    ctx.addAssignment(variable, init, doc)
                 }
 
                 break
@@ -278,32 +309,106 @@ const parseLocalStatement = (ctx: ParseContext, expr: ast.LocalStatement) => {
         if (init.type === 'Identifier') {
             // handle local reassignments of classes
             ctx.addAlias(variable.name, init.name)
+
+            // local original = func
+            ctx.addOriginal(variable.name, init.name)
+        } else if (init.type === 'MemberExpression') {
+            const name = getDottedName(init)
+            const base = getDottedName(init.base)
+
+            // local UI = MyMod.UI
+            if (name && ctx.hasClass(ctx.resolveAlias(name))) {
+                ctx.addAlias(variable.name, ctx.resolveAlias(name))
+            }
+
+            // local original = Class.func
+            if (base) {
+                ctx.addOriginal(variable.name, init.identifier.name, base)
+            }
         }
 
         ctx.addLocal(variable.name, init)
     }
 }
 
-const parseAssignmentCall = (ctx: ParseContext, variable: ast.Identifier, expr: ast.CallExpression) => {
+const parseAssignmentCall = (ctx: ParseContext, name: string, expr: ast.CallExpression) => {
     // x = y:derive("x")
     const base = expr.base
     if (base.type === 'Identifier' && base.name === 'require' && expr.arguments.length === 1) {
         // require → create class
-        return ctx.addClass(variable.name, undefined, expr)
+        return ctx.addClass(name, undefined, expr)
+    }
+
+    if (base.type === 'Identifier' && base.name === 'copyTable' && expr.arguments.length === 1) {
+        // x = copyTable(y) → class with the members of y
+        const source = getDottedName(expr.arguments[0])
+        if (!source) return
+
+        const cls = ctx.addClass(name, undefined, expr)
+        if (cls) {
+            ctx.addMixin(name, source)
+        }
+
+        return cls
     }
 
     if (base.type !== 'MemberExpression' || base.identifier.name !== 'derive' || base.indexer !== ':') {
         return
     }
 
-    const ident = base.base
-    if (ident.type !== 'Identifier') return
+    const baseName = getDottedName(base.base)
+    if (!baseName) return
 
     // ensure it matches the expected derive call signature
     const args = expr.arguments
     if (args.length !== 1 || args[0].type !== 'StringLiteral') return
 
-    return ctx.addClass(variable.name, ident.name)
+    const cls = ctx.addClass(name, baseName)
+    ctx.setDeriveName(name, getStringValue(args[0]))
+
+    return cls
+}
+
+/**
+ * Checks whether a table assigned to a class is a namespace rather than a value.
+ * Arrays and tables of constants remain statics.
+ */
+const isNamespaceTable = (init: ast.TableConstructorExpression): boolean => {
+    return init.fields.every(field => field.type === 'TableKeyString') && !getEnumKind(init)
+}
+
+/**
+ * Reads a class nested in another, such as `A.B = {}` or `A.B = ISPanel:derive("B")`.
+ * @returns Whether the assignment defined a class.
+ */
+const parseNestedClass = (ctx: ParseContext, variable: ast.MemberExpression, init: ast.Expression, doc?: LuaDocComment): boolean => {
+    const name = getDottedName(variable)
+    const parent = getDottedName(variable.base)
+    if (!name || !parent) return false
+
+    // derived classes are classes wherever they're defined, but tables need a known parent
+    let cls
+    if (init.type === 'CallExpression') {
+        cls = parseAssignmentCall(ctx, name, init)
+    } else if (!ctx.hasClass(ctx.resolveAlias(parent))) {
+        return false
+    } else if (doc?.type) {
+        // annotated as a value
+        return false
+    } else if (init.type === 'TableConstructorExpression' && isNamespaceTable(init)) {
+        cls = ctx.addNamespace(variable, parent, init, doc)
+    } else if (init.type === 'LogicalExpression' && init.operator === 'or') {
+        // A.B = A.B or {}
+        if (getDottedName(init.left) !== name) return false
+        if (init.right.type !== 'TableConstructorExpression' || !isNamespaceTable(init.right)) return false
+
+        cls = ctx.addNamespace(variable, parent, init, doc)
+    }
+
+    if (!cls && !ctx.hasClass(ctx.resolveAlias(name))) return false
+
+    ctx.setClassDoc(name, doc)
+    return true
 }
 
 const parseAssignmentLogical = (ctx: ParseContext, variable: ast.Identifier, init: ast.LogicalExpression) => {
@@ -332,20 +437,35 @@ const parseFunction = (ctx: ParseContext, identifier: ast.Identifier, expr: ast.
     }
 
     parseFunctionBody(ctx, expr.body)
-    return ctx.addFunction(identifier.name, getParameterList(expr.parameters))
+
+    if (ctx.isHooked(identifier.name)) {
+        return ctx.addHook(identifier.name, expr, false)
+    }
+
+    return ctx.addFunction(identifier.name, expr)
 }
 
 const parseMemberFunction = (ctx: ParseContext, member: ast.MemberExpression, expr: ast.FunctionDeclaration) => {
-    if (member.base.type !== 'Identifier') {
+    const className = getDottedName(member.base)
+    if (!className) {
         return
     }
 
-    const className = member.base.name
     const name = member.identifier.name
-    const params = getParameterList(expr.parameters)
     const isConstructor = name === 'new'
     const isMethod = member.indexer === ':'
 
+    if (ctx.isHooked(name, className)) {
+        // the wrapper keeps the signature of the original, but may add fields
+        if (isMethod) {
+            parseMethodBody(ctx, className, expr.body, false, true)
+        } else {
+            parseFunctionBody(ctx, expr.body)
+        }
+
+        return ctx.addHook(name, expr, isMethod, className)
+    }
+
     if (isConstructor || isMethod) {
         const returnType = parseMethodBody(ctx, className, expr.body, isConstructor, isMethod)
 
@@ -356,11 +476,127 @@ const parseMemberFunction = (ctx: ParseContext, member: ast.MemberExpression, ex
         parseFunctionBody(ctx, expr.body)
     }
 
-    return ctx.addMemberFunction(className, name, params, isMethod)
+    return ctx.addMemberFunction(className, name, expr, isMethod)
+}
+
+/**
+ * Reads a loop which copies the members of a table into a class.
+ * Matches `for k, v in pairs(Mixin) do Class[k] = v end`, and `Class[k] = Mixin[k]` in the body.
+ */
+const parseMixinLoop = (ctx: ParseContext, stmt: ast.ForGenericStatement) => {
+    if (stmt.variables.length !== 2 || stmt.iterators.length !== 1) return
+
+    const iterator = stmt.iterators[0]
+    if (iterator.type !== 'CallExpression' || iterator.arguments.length !== 1) return
+    if (iterator.base.type !== 'Identifier' || iterator.base.name !== 'pairs') return
+
+    const mixin = getDottedName(iterator.arguments[0])
+    if (!mixin) return
+
+    const [key, value] = stmt.variables
+    const isCopiedValue = (expr?: ast.Expression): boolean => {
+        if (expr?.type === 'Identifier') return expr.name === value.name
+        if (expr?.type !== 'IndexExpression') return false
+
+        return getDottedName(expr.base) === mixin && expr.index.type === 'Identifier' && expr.index.name === key.name
+    }
+
+    for (const statement of stmt.body) {
+        if (statement.type !== 'AssignmentStatement' || statement.variables.length !== 1) continue
+
+        const variable = statement.variables[0]
+        if (variable.type !== 'IndexExpression') continue
+        if (variable.index.type !== 'Identifier' || variable.index.name !== key.name) continue
+        if (!isCopiedValue(statement.init[0])) continue
+
+        const cls = getDottedName(variable.base)
+        if (cls) {
+            ctx.addMixin(cls, mixin)
+        }
+    }
+}
+
+/**
+ * Reads `setmetatable(Class, { __index = Base })`, which makes a class inherit the members of another table.
+ */
+const parseMetatableCall = (ctx: ParseContext, expr: ast.Expression) => {
+    if (!isSetMetatableCall(expr) || expr.arguments.length !== 2) return
+
+    const [target, metatable] = expr.arguments
+    const cls = getDottedName(target)
+    if (!cls || metatable.type !== 'TableConstructorExpression') return
+
+    for (const field of metatable.fields) {
+        if (field.type !== 'TableKeyString' || field.key.name !== '__index') continue
+
+        const base = getDottedName(field.value)
+        if (base) {
+            ctx.addMixin(cls, base)
+        }
+    }
+}
+
+/**
+ * Gets the name of the event a call adds a handler to, for calls of the form `Events.X.Add(handler)`.
+ */
+const getEventName = (call: ast.CallExpression): string | undefined => {
+    const base = call.base
+    if (base.type !== 'MemberExpression' || base.indexer !== '.') return
+    if (base.identifier.name !== 'Add') return
+
+    const event = base.base
+    if (event.type !== 'MemberExpression' || event.indexer !== '.') return
+    if (event.base.type !== 'Identifier' || event.base.name !== 'Events') return
+
+    return event.identifier.name
+}
+
+/**
+ * Finds the event handlers added anywhere in a file, including within functions.
+ */
+const parseEventHandlers = (ctx: ParseContext, statements: ast.Statement[]) => {
+    const stack = [ statements ]
+    while (stack.length > 0) {
+        const body = stack.pop()!
+
+        for (const statement of body) {
+            addBodyToStack(statement, stack)
+
+            switch (statement.type) {
+                case 'FunctionDeclaration':
+                    stack.push(statement.body)
+                    break
+                case 'LocalStatement':
+                case 'AssignmentStatement':
+                    for (const init of statement.init) {
+                        if (init.type !== 'FunctionDeclaration') continue
+                        stack.push(init.body)
+                    }
+
+                    break
+                case 'CallStatement':
+                    const call = statement.expression
+                    if (call.type !== 'CallExpression') break
+
+                    for (const arg of call.arguments) {
+                        if (arg.type !== 'FunctionDeclaration') continue
+                        stack.push(arg.body)
+                    }
+
+                    const event = getEventName(call)
+                    if (!event || call.arguments.length !== 1) break
+
+                    ctx.addEventHandler(event, call.arguments[0], call)
+                    break
+            }
+        }
+    }
 }
 
 const parseTree = (ctx: ParseContext, tree: ast.Chunk) => {
     for (const stmt of tree.body) {
+        ctx.setStatement(stmt)
+
         switch (stmt.type) {
             case 'ReturnStatement':
                 ctx.setModuleReturns(stmt.arguments)
@@ -371,6 +607,12 @@ const parseTree = (ctx: ParseContext, tree: ast.Chunk) => {
             case 'AssignmentStatement':
                 parseAssignmentStatement(ctx, stmt)
                 break
+            case 'ForGenericStatement':
+                parseMixinLoop(ctx, stmt)
+                break
+            case 'CallStatement':
+                parseMetatableCall(ctx, stmt.expression)
+                break
             case 'IfStatement':
                 // if x == nil then x = {} end
                 if (stmt.clauses.length !== 1) break
@@ -420,6 +662,8 @@ const parseTree = (ctx: ParseContext, tree: ast.Chunk) => {
     }
 }
 
+const isComment = (value: string | ast.Comment): value is ast.Comment => typeof value !== 'string'
+
 /**
  * Parses the contents of a single Lua file.
  * @param input Lua source.
@@ -429,13 +673,22 @@ export const parse = (input: string): ParseResult => {
 
     try {
         const tree = ast.parse(input, {
-            comments: false,
+            comments: true,
+            locations: true,
+            scope: true,
             luaVersion: '5.1',
         })
 
-        const ctx = new ParseContext()
+        // the luaparse typings incorrectly declare comments as strings
+        const comments = (tree.comments as (string | ast.Comment)[] | undefined ?? []).filter(isComment)
+        const ctx = new ParseContext(new CommentMap(comments, input))
 
         parseTree(ctx, tree)
+        parseEventHandlers(ctx, tree.body)
+
+        // the typings also omit the globals found by scope tracking
+        const globals = (tree as ast.Chunk & { globals?: ast.Identifier[] }).globals ?? []
+        ctx.setGlobalReferences(globals.map(x => x.name))
 
         return {
             success: true,
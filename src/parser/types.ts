@@ -1,10 +1,81 @@
 import ast from 'luaparse'
 
+export interface LuaDocTag {
+    name?: string
+    type: string
+    notes?: string
+    optional?: boolean
+}
+
+export interface LuaDocComment {
+    description: string[]
+    params: { [name: string]: LuaDocTag }
+    returns: LuaDocTag[]
+    fields: { [name: string]: LuaDocTag }
+    base?: string
+    type?: string
+    tags: string[]
+}
+
+export type LuaEnvironment = 'client' | 'server' | 'shared'
+
+export interface LuaLocation {
+    line: number
+    column: number
+}
+
+export interface LuaParameterHint {
+    optional: boolean
+    defaults: ast.Expression[]
+    types: string[]
+}
+
 export interface LuaFunction {
     name: string
     parameters: string[]
+    parameterHints: { [name: string]: LuaParameterHint }
+    returns: ast.Expression[][]
+    fallsThrough: boolean
+    doc?: LuaDocComment
+    location?: LuaLocation
+    environment?: LuaEnvironment
+    root?: string
+
+    /** Files which replace the function with a wrapper that calls the original. */
+    hookedBy?: string[]
 }
 
+/**
+ * A function redefined after its original was saved to a local, so it can be called by the new definition.
+ */
+export interface LuaHook {
+    /** The class of a hooked member function. */
+    cls?: string
+    name: string
+    isMethod: boolean
+    location?: LuaLocation
+}
+
+/**
+ * A handler added to a game event with `Events.X.Add`.
+ */
+export interface LuaEventHandler {
+    event: string
+
+    /** The name the handler was passed by, unless it's an anonymous function. */
+    handler?: string
+
+    /** The parameters of the handler, if its definition was found. */
+    parameters?: string[]
+    location?: LuaLocation
+    environment?: LuaEnvironment
+}
+
+/**
+ * How a table of constants is annotated: as an enum of its values, or as an alias of its keys.
+ */
+export type LuaEnumKind = 'enum' | 'alias'
+
 export interface LuaClass {
     name: string
     fields: { [name: string]: LuaField }
@@ -16,11 +87,33 @@ export interface LuaClass {
     base?: string
     init?: ast.Expression
     noAnnotation?: boolean
+    doc?: LuaDocComment
+    location?: LuaLocation
+    environment?: LuaEnvironment
+    root?: string
+
+    /** Set if the class is only a table of constants. */
+    enum?: LuaEnumKind
+
+    /** The type name passed to `derive`, which nested classes may give without their parents. */
+    deriveName?: string
+
+    /** Tables whose members are copied into the class or inherited through its metatable. */
+    mixins?: string[]
+
+    /**
+     * The name of the local a module table is declared with.
+     * The class itself is named after the module, since locals of different files may share names.
+     */
+    localName?: string
 }
 
 export interface LuaField {
     name: string
     inInitializer: boolean
+    values: ast.Expression[]
+    doc?: LuaDocComment
+    root?: string
 }
 
 export interface LuaLocal {
@@ -34,15 +127,21 @@ export interface LuaAssignment {
     base: string
     variable: ast.Expression
     init: ast.Expression
+    doc?: LuaDocComment
+    enum?: LuaEnumKind
 }
 
 export interface LuaSourceInfo {
     error?: any
     classes: { [cls: string]: LuaClass }
+    extensions: { [cls: string]: LuaClass }
     functions: LuaFunction[]
     locals: { [name: string]: LuaLocal }
     localAssigns: LuaAssignment[]
     moduleReturns: ast.Expression[]
+    globalReferences: string[]
+    hooks: LuaHook[]
+    events: LuaEventHandler[]
 }
 
 export type ParseResult = {
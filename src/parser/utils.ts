@@ -1,6 +1,10 @@
 import ast from 'luaparse'
+import { LuaAssignment, LuaEnumKind, LuaLocation, LuaParameterHint } from './types'
 
 const numericRegexp = /(\d)[lf]([,;)\s])/g
+const longStringRegexp = /^\[(=*)\[([\s\S]*)\]\1\]$/
+
+const luaTypeNames = new Set(['string', 'number', 'boolean', 'table', 'function', 'userdata', 'thread'])
 
 export const sanitizeLua = (lua: string): string => {
     // based on PipeWrench-Modeler
@@ -13,6 +17,15 @@ export const sanitizeLua = (lua: string): string => {
     return lua
 }
 
+/**
+ * Gets the start location of a node.
+ */
+export const getLocation = (node?: ast.Node): LuaLocation | undefined => {
+    if (!node?.loc) return
+
+    return { line: node.loc.start.line, column: node.loc.start.column }
+}
+
 /**
  * Searches for references to identifiers in an expression.
  * @param expression The expression to search.
@@ -73,6 +86,21 @@ export const findIdentifierReferences = (expression: ast.Expression): string[] =
     return references
 }
 
+/**
+ * Reads the value of a string literal.
+ * luaparse does not provide the value unless an encoding mode is specified.
+ */
+export const getStringValue = (literal: ast.StringLiteral): string => {
+    const raw = literal.raw
+
+    const match = raw.match(longStringRegexp)
+    if (match) {
+        return match[2]
+    }
+
+    return raw.slice(1, -1)
+}
+
 export const getParameterList = (parameters: (ast.Identifier | ast.VarargLiteral)[]) => {
     const params: string[] = []
     for (const param of parameters) {
@@ -86,6 +114,44 @@ export const getParameterList = (parameters: (ast.Identifier | ast.VarargLiteral
     return params
 }
 
+/**
+ * Gets the name of an identifier or a chain of `.` member accesses, such as `A.B.c`.
+ */
+export const getDottedName = (expr: ast.Expression): string | undefined => {
+    if (expr.type === 'Identifier') return expr.name
+    if (expr.type !== 'MemberExpression' || expr.indexer !== '.') return
+
+    const base = getDottedName(expr.base)
+    return base ? `${base}.${expr.identifier.name}` : undefined
+}
+
+/**
+ * Gets the name of a static which is a direct member of its class, such as `x` in `Class.x = y`.
+ * Assignments to members of fields, such as `Class.x.y = z`, have no name.
+ */
+export const getStaticName = (info: LuaAssignment): string | undefined => {
+    const variable = info.variable
+    if (variable.type !== 'MemberExpression') return
+
+    // identifiers may be local names or aliases, which were resolved to the owner by the parser
+    if (variable.base.type === 'Identifier' || getDottedName(variable.base) === info.base) {
+        return variable.identifier.name
+    }
+}
+
+/**
+ * Gets the path a call of the form `require("X")` or `require "X"` loads.
+ */
+export const getRequiredModule = (expr: ast.Expression): string | undefined => {
+    if (expr.type !== 'CallExpression' && expr.type !== 'StringCallExpression') return
+    if (expr.base.type !== 'Identifier' || expr.base.name !== 'require') return
+
+    const arg = expr.type === 'CallExpression' ? expr.arguments[0] : expr.argument
+    if (arg?.type !== 'StringLiteral') return
+
+    return getStringValue(arg)
+}
+
 export const getIdentifierBase = (expr: ast.Expression): ast.Identifier | undefined => {
     switch (expr.type) {
         case 'MemberExpression':
@@ -100,3 +166,347 @@ export const getIdentifierBase = (expr: ast.Expression): ast.Identifier | undefi
             return expr
     }
 }
+
+const getLiteralKind = (expr: ast.Expression): string | undefined => {
+    switch (expr.type) {
+        case 'NumericLiteral':
+        case 'StringLiteral':
+            return expr.type
+        case 'BooleanLiteral':
+            return expr.value ? 'true' : undefined
+        case 'UnaryExpression':
+            // negative numbers
+            return expr.operator === '-' && expr.argument.type === 'NumericLiteral' ? 'NumericLiteral' : undefined
+    }
+}
+
+/**
+ * Checks whether a table is a set of named constants.
+ * @returns `enum` for tables whose values are all numbers or all strings,
+ * `alias` for flag tables whose values are all `true`, and undefined otherwise.
+ */
+export const getEnumKind = (expr: ast.Expression): LuaEnumKind | undefined => {
+    if (expr.type !== 'TableConstructorExpression' || expr.fields.length === 0) return
+
+    const kinds = new Set<string | undefined>()
+    for (const field of expr.fields) {
+        if (field.type !== 'TableKeyString') return
+        kinds.add(getLiteralKind(field.value))
+    }
+
+    if (kinds.size !== 1) return
+
+    const [kind] = kinds
+    if (kind === 'true') return 'alias'
+    if (kind) return 'enum'
+}
+
+/**
+ * Pushes the bodies of a block statement to a stack of bodies to visit.
+ * Function bodies are not included.
+ */
+export const addBodyToStack = (statement: ast.Statement, stack: ast.Statement[][]): void => {
+    switch (statement.type) {
+        case 'DoStatement':
+        case 'WhileStatement':
+        case 'RepeatStatement':
+        case 'ForGenericStatement':
+        case 'ForNumericStatement':
+            stack.push(statement.body)
+            break
+        case 'IfStatement':
+            for (const clause of statement.clauses) {
+                stack.push(clause.body)
+            }
+
+            break
+    }
+}
+
+/**
+ * Checks whether a block always ends in a return or an error.
+ */
+const isTerminalBlock = (statements: ast.Statement[]): boolean => {
+    const last = statements[statements.length - 1]
+    if (!last) return false
+
+    switch (last.type) {
+        case 'ReturnStatement':
+            return true
+        case 'DoStatement':
+            return isTerminalBlock(last.body)
+        case 'IfStatement':
+            const hasElse = last.clauses.some(clause => clause.type === 'ElseClause')
+            return hasElse && last.clauses.every(clause => isTerminalBlock(clause.body))
+        case 'CallStatement':
+            const call = last.expression
+            return call.type === 'CallExpression' && call.base.type === 'Identifier' && call.base.name === 'error'
+    }
+
+    return false
+}
+
+interface LocalBinding {
+    init?: ast.Expression
+
+    /** Set if the local is assigned after its declaration, so its value is unknown. */
+    reassigned: boolean
+
+    /** The `setmetatable` call which makes the local an instance of a class. */
+    instance?: ast.CallExpression
+}
+
+type LocalScope = Map<string, LocalBinding>
+
+const findBinding = (scopes: LocalScope[], name: string): LocalBinding | undefined => {
+    for (let i = scopes.length - 1; i >= 0; i--) {
+        const binding = scopes[i].get(name)
+        if (binding) return binding
+    }
+}
+
+const isSetMetatableOf = (expr: ast.Expression | undefined, name: string): expr is ast.CallExpression => {
+    if (expr?.type !== 'CallExpression') return false
+    if (expr.base.type !== 'Identifier' || expr.base.name !== 'setmetatable') return false
+
+    const target = expr.arguments[0]
+    return target?.type === 'Identifier' && target.name === name
+}
+
+/**
+ * Collects the values returned by a function body.
+ * Returned locals which are never reassigned are replaced by their initializer,
+ * or by the `setmetatable` call which makes them an instance.
+ */
+export const getFunctionReturns = (statements: ast.Statement[]): { returns: ast.Expression[][], fallsThrough: boolean } => {
+    const returns: ast.Expression[][] = []
+    const returnBindings = new Map<ast.Expression[], (LocalBinding | undefined)[]>()
+
+    // blocks are visited in source order, so returns see the locals in scope at that point
+    const visit = (body: ast.Statement[], scopes: LocalScope[]) => {
+        const scope: LocalScope = new Map()
+        scopes = [...scopes, scope]
+
+        for (const statement of body) {
+            switch (statement.type) {
+                case 'ReturnStatement':
+                    const args = [...statement.arguments]
+                    returns.push(args)
+                    returnBindings.set(args, args.map(arg => arg.type === 'Identifier' ? findBinding(scopes, arg.name) : undefined))
+                    break
+                case 'LocalStatement':
+                    for (const [i, variable] of statement.variables.entries()) {
+                        scope.set(variable.name, { init: statement.init[i], reassigned: false })
+                    }
+
+                    break
+                case 'AssignmentStatement':
+                    for (const [i, variable] of statement.variables.entries()) {
+                        if (variable.type !== 'Identifier') continue
+
+                        const binding = findBinding(scopes, variable.name)
+                        if (!binding) continue
+
+                        // o = setmetatable(o, self)
+                        const init = statement.init[i]
+                        if (isSetMetatableOf(init, variable.name)) {
+                            binding.instance = init
+                        } else {
+                            binding.reassigned = true
+                        }
+                    }
+
+                    break
+                case 'CallStatement':
+                    // setmetatable(o, self)
+                    const call = statement.expression
+                    if (call.type !== 'CallExpression') break
+
+                    const target = call.arguments[0]
+                    if (target?.type !== 'Identifier' || !isSetMetatableOf(call, target.name)) break
+
+                    const binding = findBinding(scopes, target.name)
+                    if (binding) {
+                        binding.instance = call
+                    }
+
+                    break
+            }
+
+            const children: ast.Statement[][] = []
+            addBodyToStack(statement, children)
+
+            // loop variables shadow outer locals
+            const loopScope: LocalScope = new Map()
+            if (statement.type === 'ForNumericStatement') {
+                loopScope.set(statement.variable.name, { reassigned: true })
+            } else if (statement.type === 'ForGenericStatement') {
+                for (const variable of statement.variables) {
+                    loopScope.set(variable.name, { reassigned: true })
+                }
+            }
+
+            for (const child of children) {
+                visit(child, [...scopes, loopScope])
+            }
+        }
+    }
+
+    visit(statements, [])
+
+    for (const args of returns) {
+        const bindings = returnBindings.get(args)!
+        for (const [i, binding] of bindings.entries()) {
+            if (!binding) continue
+
+            if (binding.instance) {
+                args[i] = binding.instance
+            } else if (!binding.reassigned && binding.init) {
+                args[i] = binding.init
+            }
+        }
+    }
+
+    return {
+        returns,
+        fallsThrough: !isTerminalBlock(statements),
+    }
+}
+
+const isNilCheck = (expr: ast.Expression, name: string): boolean => {
+    if (expr.type === 'UnaryExpression') {
+        return expr.operator === 'not' && expr.argument.type === 'Identifier' && expr.argument.name === name
+    }
+
+    if (expr.type !== 'BinaryExpression' || expr.operator !== '==') return false
+
+    const [other, nil] = expr.right.type === 'NilLiteral' ? [expr.left, expr.right] : [expr.right, expr.left]
+    return nil.type === 'NilLiteral' && other.type === 'Identifier' && other.name === name
+}
+
+/**
+ * Reads a `type(x) == "y"` comparison.
+ * @returns The name of the variable and the type it's compared against.
+ */
+const readTypeCheck = (expr: ast.BinaryExpression): [string, string] | undefined => {
+    if (expr.operator !== '==' && expr.operator !== '~=') return
+
+    const [call, literal] = expr.right.type === 'StringLiteral' ? [expr.left, expr.right] : [expr.right, expr.left]
+    if (literal.type !== 'StringLiteral' || call.type !== 'CallExpression') return
+    if (call.base.type !== 'Identifier' || call.base.name !== 'type') return
+    if (call.arguments.length !== 1 || call.arguments[0].type !== 'Identifier') return
+
+    const type = getStringValue(literal)
+    if (!luaTypeNames.has(type)) return
+
+    return [call.arguments[0].name, type]
+}
+
+/**
+ * Finds hints about the types and optionality of a function's parameters.
+ * Parameters are optional if they're checked against nil or given a default value.
+ */
+export const getParameterHints = (expr: ast.FunctionDeclaration): { [name: string]: LuaParameterHint } => {
+    const hints: { [name: string]: LuaParameterHint } = {}
+    const parameters = new Set(getParameterList(expr.parameters))
+
+    const getHint = (name: string) => {
+        if (!hints[name]) {
+            hints[name] = { optional: false, defaults: [], types: [] }
+        }
+
+        return hints[name]
+    }
+
+    const readCondition = (condition: ast.Expression) => {
+        const stack = [ condition ]
+        while (stack.length > 0) {
+            const cond = stack.pop()!
+
+            switch (cond.type) {
+                case 'LogicalExpression':
+                    stack.push(cond.left, cond.right)
+                    break
+                case 'UnaryExpression':
+                    if (cond.operator !== 'not') break
+
+                    if (cond.argument.type === 'Identifier' && parameters.has(cond.argument.name)) {
+                        getHint(cond.argument.name).optional = true
+                    } else {
+                        stack.push(cond.argument)
+                    }
+
+                    break
+                case 'BinaryExpression':
+                    for (const name of parameters) {
+                        if (isNilCheck(cond, name)) {
+                            getHint(name).optional = true
+                        }
+                    }
+
+                    const typeCheck = readTypeCheck(cond)
+                    if (typeCheck && parameters.has(typeCheck[0])) {
+                        const hint = getHint(typeCheck[0])
+                        if (hint.types.indexOf(typeCheck[1]) === -1) {
+                            hint.types.push(typeCheck[1])
+                        }
+                    }
+
+                    break
+            }
+        }
+    }
+
+    const stack = [ expr.body ]
+    while (stack.length > 0) {
+        const body = stack.pop()!
+
+        for (const statement of body) {
+            addBodyToStack(statement, stack)
+
+            switch (statement.type) {
+                case 'AssignmentStatement':
+                    for (const [i, variable] of statement.variables.entries()) {
+                        const init = statement.init[i]
+                        if (!init || variable.type !== 'Identifier' || !parameters.has(variable.name)) continue
+
+                        // x = x or default
+                        if (init.type !== 'LogicalExpression' || init.operator !== 'or') continue
+                        if (init.left.type !== 'Identifier' || init.left.name !== variable.name) continue
+
+                        const hint = getHint(variable.name)
+                        hint.optional = true
+                        hint.defaults.push(init.right)
+                    }
+
+                    break
+                case 'IfStatement':
+                    for (const clause of statement.clauses) {
+                        if (clause.type === 'ElseClause') continue
+
+                        readCondition(clause.condition)
+
+                        // if x == nil then x = default end
+                        for (const inner of clause.body) {
+                            if (inner.type !== 'AssignmentStatement') continue
+
+                            for (const [i, variable] of inner.variables.entries()) {
+                                if (variable.type !== 'Identifier' || !inner.init[i]) continue
+                                if (!isNilCheck(clause.condition, variable.name)) continue
+
+                                getHint(variable.name).defaults.push(inner.init[i])
+                            }
+                        }
+                    }
+
+                    break
+                case 'WhileStatement':
+                case 'RepeatStatement':
+                    readCondition(statement.condition)
+                    break
+            }
+        }
+    }
+
+    return hints
+}
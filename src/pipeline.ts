@@ -0,0 +1,361 @@
+import fs from 'fs'
+import path from 'path'
+
+import { AnnotateArgs } from './types'
+import { annotate, getReferencedClasses } from './annotator'
+import { declare } from './declarations'
+import { SymbolTable } from './symbols'
+import { OutputWriter, ParsedFile, findInputFiles, getInputRoot, getRelativePath, readLuaFile, writeOutputFile } from './files'
+import { checkOutputs } from './check'
+import { annotateKahlua, readKahluaDefinitions } from './kahlua'
+import { annotateSandbox, readSandboxDefinitions } from './sandbox'
+import { getEnvironment, getLibraryEnvironments } from './environment'
+import { getRequirePath } from './modules'
+import { annotateInWorkers, getJobCount, parseSources } from './workers'
+import {
+    AnnotationCache,
+    CacheEntry,
+    getCacheKey,
+    getCacheNames,
+    getDependencyKey,
+    hashContent,
+    loadRosettaIndex,
+} from './cache'
+
+import { Rosetta } from 'pz-rosetta-ts/lib/asledgehammer/rosetta/Rosetta'
+
+export const loadRosetta = (options: Pick<AnnotateArgs, 'rosetta'>, log: (message: string) => void = console.log): Rosetta => {
+    const rosetta = new Rosetta()
+
+    try {
+        rosetta.load(options.rosetta)
+    } catch (e) {
+        log(`Failed to load rosetta; creating fallback annotations. ${e}`)
+    }
+
+    return rosetta
+}
+
+/**
+ * Builds the project symbol table for a set of parsed files.
+ * @param roots The input directories the files were found in.
+ */
+export const buildSymbolTable = (roots: string[], parsedFiles: ParsedFile[], verbose?: boolean): SymbolTable => {
+    const symbols = new SymbolTable()
+    for (const { fullPath, result } of parsedFiles) {
+        symbols.addFile(getRelativePath(roots, fullPath), result)
+    }
+
+    const warnings = symbols.resolve()
+    if (verbose) {
+        for (const warning of warnings) {
+            console.warn(warning)
+        }
+    }
+
+    return symbols
+}
+
+export const getOutputExtension = (options: AnnotateArgs): string => {
+    return options.format === 'dts' ? '.d.ts' : '.lua'
+}
+
+/**
+ * Gets the paths a file's annotations are written to.
+ * With split environments, each environment gets its own library and shared files are written to both.
+ */
+export const getOutputPaths = (options: AnnotateArgs, fullPath: string): string[] => {
+    const outDir = path.resolve(options.out)
+
+    let relativePath = getRelativePath(options.in, fullPath)
+    const extension = getOutputExtension(options)
+    if (extension !== '.lua') {
+        relativePath = relativePath.slice(0, -path.extname(relativePath).length) + extension
+    }
+
+    if (!options['split-environments']) {
+        return [path.join(outDir, relativePath)]
+    }
+
+    return getLibraryEnvironments(getEnvironment(getRelativePath(options.in, fullPath)))
+        .map(env => path.join(outDir, env, relativePath))
+}
+
+/**
+ * Gets the path used to require a file.
+ * Paths are relative to the client, server and shared directories.
+ */
+export const getModuleName = (options: AnnotateArgs, fullPath: string): string => {
+    return getRequirePath(getRelativePath(options.in, fullPath))
+}
+
+/**
+ * Annotates a parsed file and writes the result to the output directory.
+ * @param write Writes the result; defaults to writing to disk.
+ * @returns Whether the file was written.
+ */
+export const annotateFile = async (
+    rosetta: Rosetta,
+    file: ParsedFile,
+    options: AnnotateArgs,
+    symbols: SymbolTable | undefined,
+    warnings: string[],
+    errors: string[],
+    write: OutputWriter = writeOutputFile
+): Promise<boolean> => {
+    const { fullPath, result } = file
+    const filename = path.basename(fullPath, '.lua')
+
+    const annotated = options.format === 'dts'
+        ? declare(rosetta, result, filename, getModuleName(options, fullPath), options, symbols, warnings)
+        : annotate(rosetta, result, filename, options, symbols, warnings)
+
+    let written = true
+    for (const outputPath of getOutputPaths(options, fullPath)) {
+        written = await write(outputPath, annotated, errors) && written
+    }
+
+    return written
+}
+
+/**
+ * Writes the SandboxVars definitions for the sandbox options of the input directories, if there are any.
+ * @param write Writes the result; defaults to writing to disk.
+ * @returns Whether the definitions were written.
+ */
+export const annotateSandboxFiles = async (
+    getRosetta: () => Rosetta,
+    options: AnnotateArgs,
+    warnings: string[],
+    errors: string[],
+    write: OutputWriter = writeOutputFile
+): Promise<boolean> => {
+    const sandbox = await readSandboxDefinitions(options.in, errors)
+    if (!sandbox) return false
+
+    if (options.format === 'dts') {
+        warnings.push('SandboxVars definitions are only available in the lua format.')
+        return false
+    }
+
+    const content = annotateSandbox(getRosetta(), sandbox, options)
+
+    // generated definitions are available everywhere
+    const libraries = options['split-environments'] ? getLibraryEnvironments(undefined) : ['']
+
+    let written = true
+    for (const library of libraries) {
+        written = await write(path.join(path.resolve(options.out), library, '__sandbox.lua'), content, errors) && written
+    }
+
+    return written
+}
+
+export interface AnnotateResult {
+    /** The loaded Rosetta, if any file needed it. */
+    rosetta?: Rosetta
+    parsedFiles: ParsedFile[]
+}
+
+interface CachedSource {
+    fullPath: string
+    relativePath: string
+    content: string
+    hash: string
+    names: string[]
+    parsed?: ParsedFile
+    entry?: CacheEntry
+}
+
+/**
+ * Parses the sources which haven't been parsed yet.
+ */
+const parseCachedSources = async (sources: CachedSource[], options: AnnotateArgs, errors: string[]) => {
+    const unparsed = sources.filter(x => !x.parsed)
+    const parsed = await parseSources(unparsed, options, errors)
+
+    unparsed.forEach((source, i) => source.parsed = parsed[i])
+}
+
+/**
+ * Annotates the input files which changed since the cached run.
+ * @returns The parsed files. Unchanged files are only parsed when watching.
+ */
+const annotateCachedFiles = async (
+    options: AnnotateArgs,
+    kahlua: Buffer,
+    getRosetta: () => Rosetta,
+    warnings: string[],
+    errors: string[]
+): Promise<ParsedFile[]> => {
+    const index = await loadRosettaIndex(path.resolve(options.rosetta))
+    const cache = await AnnotationCache.open(path.resolve(options.cache!), getCacheKey(options, kahlua, index))
+
+    let sources: CachedSource[] = []
+    for (const fullPath of await findInputFiles(options.in, errors)) {
+        const content = await readLuaFile(fullPath, errors)
+        if (content === undefined) continue
+
+        const relativePath = getRelativePath(options.in, fullPath)
+        const hash = hashContent(content)
+        const source: CachedSource = { fullPath, relativePath, content, hash, names: [] }
+
+        const entry = cache.get(relativePath)
+        if (entry && entry.hash === hash) {
+            source.entry = entry
+            source.names = entry.names
+        }
+
+        sources.push(source)
+    }
+
+    // changed files
+    await parseCachedSources(sources.filter(x => !x.entry), options, errors)
+    for (const source of sources) {
+        if (source.parsed) {
+            source.names = getCacheNames(source.parsed.result)
+        } else if (!source.entry) {
+            cache.delete(source.relativePath)
+        }
+    }
+
+    sources = sources.filter(x => x.entry || x.parsed)
+    cache.prune(new Set(sources.map(x => x.relativePath)))
+
+    let definers: Map<string, string[]> | undefined
+    if (options.project) {
+        definers = new Map()
+        for (const source of sources) {
+            for (const name of source.names) {
+                if (!definers.has(name)) {
+                    definers.set(name, [])
+                }
+
+                // members record the input directory they came from
+                const root = getInputRoot(options.in, source.fullPath)
+                definers.get(name)!.push(`${root}:${source.relativePath}:${source.hash}`)
+            }
+        }
+    }
+
+    const stale = sources.filter(source => {
+        const entry = source.entry
+        if (!entry) return true
+
+        const key = getDependencyKey(source.hash, entry.names, entry.references, index, definers)
+        return key !== entry.key || !getOutputPaths(options, source.fullPath).every(x => fs.existsSync(x))
+    })
+
+    // the symbol table and watch mode need every file
+    if (options.watch || (options.project && stale.length > 0)) {
+        await parseCachedSources(sources, options, errors)
+    } else {
+        await parseCachedSources(stale, options, errors)
+    }
+
+    const parsedFiles = sources.filter(x => x.parsed).map(x => x.parsed!)
+
+    let symbols: SymbolTable | undefined
+    if (options.project && stale.length > 0) {
+        symbols = buildSymbolTable(options.in, parsedFiles, options.verbose)
+    }
+
+    for (const source of stale) {
+        if (!source.parsed) continue
+
+        if (!await annotateFile(getRosetta(), source.parsed, options, symbols, warnings, errors)) continue
+
+        const names = getCacheNames(source.parsed.result)
+        const references = getReferencedClasses()
+        cache.set(source.relativePath, {
+            hash: source.hash,
+            names,
+            references,
+            key: getDependencyKey(source.hash, names, references, index, definers),
+        })
+    }
+
+    if (options.verbose) {
+        console.log(`Annotated ${stale.length} file(s); ${sources.length - stale.length} unchanged.`)
+    }
+
+    await cache.save(errors)
+    return parsedFiles
+}
+
+/**
+ * Annotates every file in the input directories.
+ * With the `check` option, the results are compared with the output directory instead of written.
+ */
+export const annotateFiles = async (options: AnnotateArgs): Promise<AnnotateResult> => {
+    let rosetta: Rosetta | undefined
+    const getRosetta = () => rosetta ??= loadRosetta(options)
+
+    const kahlua = readKahluaDefinitions()
+
+    const outDir = path.resolve(options.out)
+
+    const errors: string[] = []
+    const warnings: string[] = []
+
+    const outputs = new Map<string, string>()
+    const write: OutputWriter = options.check
+        ? async (outputPath, content) => {
+            outputs.set(outputPath, content.toString())
+            return true
+        }
+        : writeOutputFile
+
+    let parsedFiles: ParsedFile[]
+    if (options.cache && !options.check) {
+        parsedFiles = await annotateCachedFiles(options, kahlua, getRosetta, warnings, errors)
+    } else if (getJobCount(options) > 1 && !options.project && !options.watch) {
+        // files are independent, so they're handled entirely by the workers
+        await annotateInWorkers(await findInputFiles(options.in, errors), options, warnings, errors, write)
+        parsedFiles = []
+    } else {
+        const fullPaths = await findInputFiles(options.in, errors)
+        const parsed = await parseSources(fullPaths.map(fullPath => ({ fullPath })), options, errors)
+        parsedFiles = parsed.filter((x): x is ParsedFile => x !== undefined)
+
+        let symbols: SymbolTable | undefined
+        if (options.project) {
+            symbols = buildSymbolTable(options.in, parsedFiles, options.verbose)
+        }
+
+        for (const file of parsedFiles) {
+            await annotateFile(getRosetta(), file, options, symbols, warnings, errors, write)
+        }
+    }
+
+    // generated definitions are available everywhere
+    const libraries = options['split-environments'] ? getLibraryEnvironments(undefined) : ['']
+
+    if (options['include-kahlua'] && options.format === 'dts') {
+        warnings.push('Kahlua definitions are only available in the lua format.')
+    } else if (options['include-kahlua']) {
+        const content = annotateKahlua(getRosetta(), kahlua, options, errors)
+
+        if (content) {
+            for (const library of libraries) {
+                await write(path.join(outDir, library, '__kahlua.lua'), content, errors)
+            }
+        }
+    }
+
+    await annotateSandboxFiles(getRosetta, options, warnings, errors, write)
+
+    if (options.check && !await checkOutputs(outDir, outputs, getOutputExtension(options), errors)) {
+        process.exitCode = 1
+    }
+
+    for (const warning of warnings) {
+        console.warn(warning)
+    }
+
+    for (const error of errors) {
+        console.error(error)
+    }
+
+    return { rosetta, parsedFiles }
+}
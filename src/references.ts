@@ -0,0 +1,100 @@
+import path from 'path'
+
+import { parseLuaFiles } from './files'
+import { EnvironmentCheckArgs } from './types'
+import { getEnvironment } from './environment'
+import { LuaEnvironment, LuaSourceInfo } from './parser/types'
+
+export interface EnvironmentReference {
+    file: string
+    environment: LuaEnvironment
+    name: string
+
+    /** The environment the referenced name is only defined in. */
+    target: LuaEnvironment
+}
+
+/**
+ * Finds references from client files to names only defined by server files, and vice versa.
+ */
+export const findEnvironmentReferences = (files: { file: string, info: LuaSourceInfo }[]): EnvironmentReference[] => {
+    const definitions = new Map<string, Set<LuaEnvironment>>()
+    for (const { file, info } of files) {
+        const environment = getEnvironment(file) ?? 'shared'
+        // local module tables aren't globals
+        const classes = Object.values(info.classes).filter(x => !x.localName)
+        const names = [...classes.map(x => x.name), ...info.functions.map(x => x.name)]
+
+        for (const name of names) {
+            if (!definitions.has(name)) {
+                definitions.set(name, new Set())
+            }
+
+            definitions.get(name)!.add(environment)
+        }
+    }
+
+    const references: EnvironmentReference[] = []
+    for (const { file, info } of files) {
+        const environment = getEnvironment(file)
+        if (environment !== 'client' && environment !== 'server') continue
+
+        const target = environment === 'client' ? 'server' : 'client'
+        for (const name of info.globalReferences) {
+            const envs = definitions.get(name)
+            if (!envs || envs.has(environment) || envs.has('shared')) continue
+
+            references.push({ file, environment, name, target })
+        }
+    }
+
+    return references
+}
+
+const formatReferences = (references: EnvironmentReference[]): string => {
+    const byFile: { [file: string]: EnvironmentReference[] } = {}
+    for (const ref of references) {
+        if (!byFile[ref.file]) {
+            byFile[ref.file] = []
+        }
+
+        byFile[ref.file].push(ref)
+    }
+
+    const out: string[] = []
+    for (const file of Object.keys(byFile).sort()) {
+        out.push(file)
+
+        for (const ref of byFile[file]) {
+            out.push(`    ${ref.name}: only defined in ${ref.target} files`)
+        }
+
+        out.push('')
+    }
+
+    out.push(`${references.length} cross-environment reference(s) found.`)
+    return out.join('\n')
+}
+
+export const checkEnvironments = async (options: EnvironmentCheckArgs) => {
+    const inDir = path.resolve(options.in)
+    const errors: string[] = []
+    const parsedFiles = await parseLuaFiles(inDir, errors)
+
+    const files = parsedFiles.map(({ fullPath, result }) => ({ file: path.relative(inDir, fullPath), info: result }))
+    const references = findEnvironmentReferences(files)
+
+    if (options.json) {
+        console.log(JSON.stringify({ references, errors }, undefined, 2))
+    } else {
+        console.log(formatReferences(references))
+
+        for (const error of errors) {
+            console.error(error)
+        }
+    }
+
+    if (references.length > 0 || errors.length > 0) {
+        process.exitCode = 1
+    }
+}
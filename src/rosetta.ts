@@ -0,0 +1,65 @@
+import fs from 'fs'
+import path from 'path'
+import YAML from 'yaml'
+
+import { isObject } from './scaffold'
+
+export const ROSETTA_EXTENSIONS = ['.yml', '.yaml', '.json']
+
+/**
+ * Gets the names of the classes and global functions described by Rosetta data.
+ */
+export const getRosettaDataNames = (data: unknown): string[] => {
+    if (!isObject(data) || !isObject(data.languages) || !isObject(data.languages.lua)) return []
+
+    const lua = data.languages.lua
+    return [
+        ...Object.keys(isObject(lua.luaClasses) ? lua.luaClasses : {}),
+        ...Object.keys(isObject(lua.functions) ? lua.functions : {}),
+    ]
+}
+
+/**
+ * Finds the Rosetta definition files in a directory and its subdirectories.
+ * @returns A sorted list of full paths.
+ */
+export const findRosettaFiles = async (dirPath: string): Promise<string[]> => {
+    const files: string[] = []
+    if (!fs.existsSync(dirPath)) return files
+
+    const stack = [dirPath]
+    while (stack.length > 0) {
+        const current = stack.pop()!
+
+        let dir: fs.Dir
+        try {
+            dir = await fs.promises.opendir(current)
+        } catch (e) {
+            continue
+        }
+
+        for await (const entry of dir) {
+            const fullPath = path.join(current, entry.name)
+            if (entry.isDirectory()) {
+                stack.push(fullPath)
+            } else if (entry.isFile() && ROSETTA_EXTENSIONS.includes(path.extname(entry.name))) {
+                files.push(fullPath)
+            }
+        }
+    }
+
+    return files.sort()
+}
+
+/**
+ * Reads the names described by a Rosetta file.
+ * @returns The names, or undefined if the file couldn't be read.
+ */
+export const readRosettaNames = async (fullPath: string): Promise<string[] | undefined> => {
+    try {
+        const content = await fs.promises.readFile(fullPath, 'utf-8')
+        return getRosettaDataNames(YAML.parse(content))
+    } catch (e) {
+        return
+    }
+}
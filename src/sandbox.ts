@@ -0,0 +1,249 @@
+import fs from 'fs'
+import path from 'path'
+
+import { annotate } from './annotator'
+import { AnnotateArgs } from './types'
+import { LuaClass, LuaDocComment, LuaDocTag, LuaSourceInfo } from './parser/types'
+
+import { Rosetta } from 'pz-rosetta-ts/lib/asledgehammer/rosetta/Rosetta'
+
+const OPTIONS_FILE = 'sandbox-options.txt'
+const TRANSLATION_FILE = path.join('shared', 'Translate', 'EN', 'Sandbox_EN.txt')
+const SANDBOX_CLASS = 'SandboxVars'
+const SANDBOX_FILENAME = '__sandbox'
+
+export type SandboxOptionType = 'boolean' | 'integer' | 'double' | 'enum' | 'string'
+
+const OPTION_TYPES: { [type in SandboxOptionType]: string } = {
+    boolean: 'boolean',
+    integer: 'integer',
+    double: 'number',
+    enum: 'integer',
+    string: 'string',
+}
+
+export interface SandboxOption {
+    /** The name of the option, with pages separated by dots. */
+    name: string
+    type: SandboxOptionType
+    properties: { [key: string]: string }
+}
+
+export interface SandboxDefinitions {
+    options: SandboxOption[]
+
+    /** English translations, by key. */
+    translations: Map<string, string>
+}
+
+/**
+ * Reads the options from the contents of a sandbox options file.
+ * Options with an unknown type are reported in `errors`.
+ */
+export const parseSandboxOptions = (content: string, file: string, errors: string[]): SandboxOption[] => {
+    content = content.replace(/\/\*[\s\S]*?\*\//g, '')
+
+    const options: SandboxOption[] = []
+    for (const match of content.matchAll(/option\s+([\w.]+)\s*\{([^}]*)\}/g)) {
+        const [_, name, body] = match
+
+        const properties: { [key: string]: string } = {}
+        for (const part of body.split(/[,\n]/)) {
+            const index = part.indexOf('=')
+            if (index === -1) continue
+
+            properties[part.slice(0, index).trim()] = part.slice(index + 1).trim()
+        }
+
+        const type = properties.type
+        if (!(type in OPTION_TYPES)) {
+            errors.push(`Unknown type '${type}' for sandbox option '${name}' in ${file}`)
+            continue
+        }
+
+        options.push({ name, type: type as SandboxOptionType, properties })
+    }
+
+    return options
+}
+
+/**
+ * Reads the entries of a translation file.
+ */
+export const parseTranslations = (content: string): Map<string, string> => {
+    const translations = new Map<string, string>()
+    for (const match of content.matchAll(/^\s*(\w+)\s*=\s*"(.*)"\s*,?\s*$/gm)) {
+        translations.set(match[1], match[2])
+    }
+
+    return translations
+}
+
+const readOptionalFile = async (fullPath: string, errors: string[]): Promise<string | undefined> => {
+    if (!fs.existsSync(fullPath)) return
+
+    try {
+        return await fs.promises.readFile(fullPath, 'utf-8')
+    } catch (e) {
+        errors.push(`Failed to read file: ${fullPath}`)
+    }
+}
+
+/**
+ * Gets the directories which may contain sandbox options files for a set of input directories.
+ */
+export const getSandboxDirectories = (roots: string[]): string[] => {
+    const dirs = roots.map(x => path.resolve(x))
+    return [...new Set([...dirs, ...dirs.map(x => path.dirname(x))])]
+}
+
+/**
+ * Checks whether a file is read for the sandbox options of a set of input directories.
+ */
+export const isSandboxFile = (roots: string[], fullPath: string): boolean => {
+    if (path.basename(fullPath) === OPTIONS_FILE) {
+        return getSandboxDirectories(roots).includes(path.dirname(fullPath))
+    }
+
+    return roots.some(root => path.join(path.resolve(root), TRANSLATION_FILE) === fullPath)
+}
+
+/**
+ * Reads the sandbox options and their translations for a set of input directories.
+ * Options files are found in each directory or its parent, next to the lua directory.
+ * Options and translations from later directories replace those from earlier ones.
+ * @returns The definitions, or undefined if no options file was found.
+ */
+export const readSandboxDefinitions = async (roots: string[], errors: string[]): Promise<SandboxDefinitions | undefined> => {
+    const options = new Map<string, SandboxOption>()
+    const translations = new Map<string, string>()
+
+    // input directories may share a parent
+    const read = new Set<string>()
+    for (const root of roots.map(x => path.resolve(x))) {
+        for (const fullPath of [path.join(root, OPTIONS_FILE), path.join(path.dirname(root), OPTIONS_FILE)]) {
+            if (read.has(fullPath)) break
+
+            const content = await readOptionalFile(fullPath, errors)
+            if (content === undefined) continue
+
+            read.add(fullPath)
+            for (const option of parseSandboxOptions(content, fullPath, errors)) {
+                options.set(option.name, option)
+            }
+
+            break
+        }
+
+        const content = await readOptionalFile(path.join(root, TRANSLATION_FILE), errors)
+        for (const [key, value] of parseTranslations(content ?? '')) {
+            translations.set(key, value)
+        }
+    }
+
+    if (read.size === 0) return
+
+    return { options: [...options.values()], translations }
+}
+
+const buildDoc = (notes?: string): LuaDocComment => ({
+    description: notes ? [notes] : [],
+    params: {},
+    returns: [],
+    fields: {},
+    tags: [],
+})
+
+/**
+ * Gets the field describing an option.
+ * Descriptions come from the translation of the option, or its translation key if there isn't one.
+ */
+const buildOptionTag = (name: string, option: SandboxOption, translations: Map<string, string>): LuaDocTag => {
+    const { properties } = option
+    const translation = properties.translation ?? option.name.replace(/\./g, '_')
+    const key = `Sandbox_${translation}`
+
+    const notes = [(translations.get(key) ?? key).replace(/\.$/, '')]
+    let type = OPTION_TYPES[option.type]
+
+    const numValues = parseInt(properties.numValues)
+    if (option.type === 'enum' && numValues > 0) {
+        const values = Array.from({ length: numValues }, (_, i) => i + 1)
+        type = values.join('|')
+
+        // value names are only useful once translated
+        const valueTranslation = properties.valueTranslation ?? translation
+        const names = values.map(i => translations.get(`Sandbox_${valueTranslation}_option${i}`))
+        if (names.every(x => x !== undefined)) {
+            notes.push(values.map(i => `${i} = ${names[i - 1]}`).join(', '))
+        }
+    }
+
+    if (properties.min !== undefined && properties.max !== undefined) {
+        notes.push(`Range: ${properties.min} to ${properties.max}`)
+    }
+
+    if (properties.default !== undefined) {
+        notes.push(`Default: ${properties.default}`)
+    }
+
+    return { name, type, notes: notes.join('. ') + '.' }
+}
+
+/**
+ * Builds source info for the sandbox options, as if they were read from annotated Lua.
+ * Pages of options are nested classes of SandboxVars.
+ */
+export const buildSandboxSource = (definitions: SandboxDefinitions): LuaSourceInfo => {
+    const result: LuaSourceInfo = {
+        classes: {},
+        extensions: {},
+        functions: [],
+        locals: {},
+        localAssigns: [],
+        moduleReturns: [],
+        globalReferences: [],
+        hooks: [],
+        events: [],
+    }
+
+    const getClass = (name: string, notes?: string): LuaClass => {
+        return result.classes[name] ??= {
+            name,
+            fields: {},
+            methods: [],
+            functions: [],
+            statics: [],
+            doc: buildDoc(notes),
+        }
+    }
+
+    getClass(SANDBOX_CLASS, 'Sandbox options of the current game, as defined by sandbox-options.txt.')
+
+    for (const option of definitions.options) {
+        const parts = option.name.split('.')
+        const name = parts.pop()!
+
+        let cls = getClass(SANDBOX_CLASS)
+        for (const page of parts) {
+            const child = getClass(`${cls.name}.${page}`)
+            cls.doc!.fields[page] = { name: page, type: child.name }
+            cls = child
+        }
+
+        cls.doc!.fields[name] = buildOptionTag(name, option, definitions.translations)
+    }
+
+    return result
+}
+
+/**
+ * Renders the sandbox options as annotations.
+ */
+export const annotateSandbox = (
+    rosetta: Rosetta,
+    definitions: SandboxDefinitions,
+    args: Pick<AnnotateArgs, 'strict-fields'>
+): string => {
+    return annotate(rosetta, buildSandboxSource(definitions), SANDBOX_FILENAME, args)
+}
@@ -0,0 +1,219 @@
+import fs from 'fs'
+import path from 'path'
+import YAML from 'yaml'
+
+import { parseLuaFiles } from './files'
+import { LuaClass, LuaFunction, LuaSourceInfo } from './parser/types'
+import { getStaticName } from './parser/utils'
+import { RosettaScaffoldArgs } from './types'
+
+const ROSETTA_VERSION = '1.0'
+
+export interface RosettaParameterData {
+    name: string
+    type?: string
+    notes?: string
+}
+
+export interface RosettaReturnData {
+    type?: string
+    notes?: string
+}
+
+export interface RosettaConstructorData {
+    notes?: string
+    deprecated?: boolean
+    parameters?: RosettaParameterData[]
+}
+
+export interface RosettaFunctionData extends RosettaConstructorData {
+    returns?: RosettaReturnData
+}
+
+export interface RosettaFieldData {
+    type?: string
+    notes?: string
+}
+
+export interface RosettaClassData {
+    extends?: string
+    notes?: string
+    deprecated?: boolean
+    fields?: { [name: string]: RosettaFieldData }
+    constructor?: RosettaConstructorData
+    methods?: { [name: string]: RosettaFunctionData }
+    functions?: { [name: string]: RosettaFunctionData }
+}
+
+export interface RosettaLuaData {
+    luaClasses?: { [name: string]: RosettaClassData }
+    functions?: { [name: string]: RosettaFunctionData }
+}
+
+/**
+ * The layout of a Rosetta definition file, as read by pz-rosetta-ts.
+ */
+export interface RosettaFileData {
+    version: string
+    languages: { lua?: RosettaLuaData }
+}
+
+/**
+ * Parsed YAML or JSON whose layout isn't known yet.
+ */
+export type RosettaRecord = { [key: string]: unknown }
+
+export const isObject = (value: unknown): value is RosettaRecord => {
+    return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Adds generated entries to existing Rosetta data.
+ * Existing values are never replaced, so documented notes and types are kept.
+ */
+export const mergeRosettaData = (existing: RosettaRecord, generated: object): RosettaRecord => {
+    for (const [key, value] of Object.entries(generated)) {
+        const current = existing[key]
+        if (!Object.prototype.hasOwnProperty.call(existing, key)) {
+            existing[key] = value
+        } else if (isObject(current) && isObject(value)) {
+            mergeRosettaData(current, value)
+        }
+    }
+
+    return existing
+}
+
+const buildFunction = (func: LuaFunction): RosettaFunctionData => {
+    const data: RosettaFunctionData = {
+        notes: '',
+        parameters: func.parameters.map(name => ({ name, type: '', notes: '' })),
+    }
+
+    if (func.returns.some(args => args.length > 0) || (func.doc && func.doc.returns.length > 0)) {
+        data.returns = { type: '', notes: '' }
+    }
+
+    return data
+}
+
+const buildFunctionTable = (functions: LuaFunction[]): { [name: string]: RosettaFunctionData } => {
+    const data: { [name: string]: RosettaFunctionData } = {}
+    for (const func of functions) {
+        if (func.name === 'new') continue
+        data[func.name] = buildFunction(func)
+    }
+
+    return data
+}
+
+const nonEmpty = <T>(table: { [name: string]: T }): { [name: string]: T } | undefined => {
+    return Object.keys(table).length > 0 ? table : undefined
+}
+
+const buildClass = (cls: LuaClass): RosettaClassData => {
+    const names = Object.keys(cls.fields)
+    for (const info of cls.statics) {
+        const name = getStaticName(info)
+        if (name) {
+            names.push(name)
+        }
+    }
+
+    const fields: { [name: string]: RosettaFieldData } = {}
+    for (const name of names.sort()) {
+        fields[name] = { type: '', notes: '' }
+    }
+
+    const cons = cls.functions.find(x => x.name === 'new') ?? cls.methods.find(x => x.name === 'new')
+
+    // every key is given, since object literals would otherwise have Object.prototype.constructor;
+    // undefined values are left out of the YAML
+    return {
+        notes: '',
+        extends: cls.base,
+        fields: nonEmpty(fields),
+        constructor: cons && {
+            notes: '',
+            parameters: cons.parameters.map(name => ({ name, type: '', notes: '' })),
+        },
+        methods: nonEmpty(buildFunctionTable(cls.methods)),
+        functions: nonEmpty(buildFunctionTable(cls.functions)),
+    }
+}
+
+/**
+ * Builds Rosetta data describing the classes and functions of a file.
+ * Types and notes are left blank to be filled in.
+ */
+export const buildRosettaData = (info: LuaSourceInfo): RosettaFileData | undefined => {
+    const luaClasses: { [name: string]: RosettaClassData } = {}
+    for (const cls of Object.values(info.classes)) {
+        // generated classes don't exist at runtime
+        if (cls.generated || cls.noAnnotation) continue
+        luaClasses[cls.name] = buildClass(cls)
+    }
+
+    const functions = buildFunctionTable(info.functions)
+
+    const lua: RosettaLuaData = {}
+    if (Object.keys(luaClasses).length > 0) {
+        lua.luaClasses = luaClasses
+    }
+
+    if (Object.keys(functions).length > 0) {
+        lua.functions = functions
+    }
+
+    if (Object.keys(lua).length === 0) return
+
+    return {
+        version: ROSETTA_VERSION,
+        languages: { lua },
+    }
+}
+
+export const scaffoldRosetta = async (options: RosettaScaffoldArgs) => {
+    const inDir = path.resolve(options.in)
+    const outDir = path.resolve(options.out)
+
+    const errors: string[] = []
+    const parsedFiles = await parseLuaFiles(inDir, errors)
+
+    for (const { fullPath, result } of parsedFiles) {
+        const generated = buildRosettaData(result)
+        if (!generated) continue
+
+        const relativePath = path.relative(inDir, fullPath)
+        const outputPath = path.join(outDir, relativePath.slice(0, -path.extname(relativePath).length) + '.yml')
+
+        let data: object = generated
+        if (fs.existsSync(outputPath)) {
+            try {
+                const existing = YAML.parse(await fs.promises.readFile(outputPath, 'utf-8'))
+                if (isObject(existing)) {
+                    data = mergeRosettaData(existing, generated)
+                }
+            } catch (e) {
+                errors.push(`Failed to read existing Rosetta file: ${outputPath}`)
+                continue
+            }
+        }
+
+        try {
+            await fs.promises.mkdir(path.dirname(outputPath), { recursive: true })
+            await fs.promises.writeFile(outputPath, YAML.stringify(data), { flag: 'w' })
+        } catch (e) {
+            errors.push(`Failed to create file: ${outputPath}`)
+            continue
+        }
+
+        if (options.verbose) {
+            console.log(`Wrote ${outputPath}`)
+        }
+    }
+
+    for (const error of errors) {
+        console.error(error)
+    }
+}
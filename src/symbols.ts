@@ -0,0 +1,264 @@
+import { getModuleClass, getRequirePath } from './modules'
+import { findIdentifierReferences } from './parser/utils'
+import { LuaClass, LuaFunction, LuaHook, LuaSourceInfo } from './parser/types'
+
+interface SymbolFile {
+    file: string
+    info: LuaSourceInfo
+}
+
+const mergeFunctions = (target: LuaFunction[], source: LuaFunction[]) => {
+    for (const func of source) {
+        if (target.find(x => x.name === func.name)) continue
+        target.push(func)
+    }
+}
+
+/**
+ * Records that a function is hooked by a file, replacing it in the list with a copy.
+ * @returns Whether the function was found.
+ */
+const addHookedBy = (functions: LuaFunction[], name: string, file: string): boolean => {
+    const index = functions.findIndex(x => x.name === name)
+    if (index === -1) return false
+
+    const func = functions[index]
+    if (!func.hookedBy?.includes(file)) {
+        functions[index] = { ...func, hookedBy: [...func.hookedBy ?? [], file] }
+    }
+
+    return true
+}
+
+const copyClass = (cls: LuaClass): LuaClass => {
+    const fields: LuaClass['fields'] = {}
+    for (const [name, field] of Object.entries(cls.fields)) {
+        fields[name] = { ...field, values: [...field.values] }
+    }
+
+    return {
+        ...cls,
+        fields,
+        methods: [...cls.methods],
+        functions: [...cls.functions],
+        statics: [...cls.statics],
+        mixins: cls.mixins && [...cls.mixins],
+    }
+}
+
+/**
+ * Gets the names of the classes and global functions a file defines or adds to.
+ */
+export const getDefinedNames = (info: LuaSourceInfo): string[] => {
+    return [
+        ...Object.values(info.classes).map(x => x.name),
+        ...Object.keys(info.extensions),
+        ...info.functions.map(x => x.name),
+        ...info.hooks.map(x => x.cls ?? x.name),
+    ]
+}
+
+/**
+ * Project-wide table of the classes and globals defined across files.
+ */
+export class SymbolTable {
+    private files: SymbolFile[]
+    private classes: { [name: string]: LuaClass }
+    private owners: { [name: string]: string }
+    private globals: { [name: string]: string }
+    private functions: { [name: string]: LuaFunction }
+    private resolved: { [name: string]: LuaClass }
+    private resolvedFunctions: { [name: string]: LuaFunction }
+
+    /** The types of the tables returned by modules, by require path. */
+    private modules: { [path: string]: string }
+
+    constructor() {
+        this.files = []
+        this.classes = {}
+        this.owners = {}
+        this.globals = {}
+        this.functions = {}
+        this.resolved = {}
+        this.resolvedFunctions = {}
+        this.modules = {}
+    }
+
+    /**
+     * Adds the parse result of a file to the table.
+     * Classes defined in multiple files are owned by the first file added.
+     */
+    addFile(file: string, info: LuaSourceInfo) {
+        this.files.push({ file, info })
+
+        for (const cls of Object.values(info.classes)) {
+            if (this.classes[cls.name]) continue
+
+            this.classes[cls.name] = cls
+            this.owners[cls.name] = file
+        }
+
+        for (const func of info.functions) {
+            if (this.globals[func.name]) continue
+            this.globals[func.name] = file
+            this.functions[func.name] = func
+        }
+
+        const moduleClass = getModuleClass(info)
+        if (moduleClass) {
+            this.modules[getRequirePath(file)] ??= moduleClass.name
+        }
+    }
+
+    getClass(name: string): LuaClass | undefined {
+        return this.resolved[name] ?? this.classes[name]
+    }
+
+    getClasses(): LuaClass[] {
+        return Object.keys(this.classes).map(name => this.getClass(name)!)
+    }
+
+    getFunctions(): LuaFunction[] {
+        return Object.values(this.functions)
+    }
+
+    /**
+     * Gets the type of the table returned by a module.
+     * @param requirePath The path passed to `require`.
+     */
+    getModuleType(requirePath: string): string | undefined {
+        return this.modules[requirePath]
+    }
+
+    getClassOwner(name: string): string | undefined {
+        return this.owners[name]
+    }
+
+    getGlobalOwner(name: string): string | undefined {
+        return this.globals[name]
+    }
+
+    hasClass(name: string): boolean {
+        return this.classes[name] !== undefined
+    }
+
+    /**
+     * Checks whether a class is the definition owned by the table, rather than one from another file.
+     */
+    isOwnedDefinition(cls: LuaClass): boolean {
+        return this.classes[cls.name] === cls
+    }
+
+    /**
+     * Gets the definition of a class to annotate.
+     * For the class owner, this is the class with members from other files merged in.
+     */
+    getDefinition(cls: LuaClass): LuaClass {
+        if (this.classes[cls.name] !== cls) return cls
+        return this.resolved[cls.name] ?? cls
+    }
+
+    /**
+     * Gets the definition of a global function to annotate, which includes the files that hook it.
+     */
+    getFunctionDefinition(func: LuaFunction): LuaFunction {
+        if (this.functions[func.name] !== func) return func
+        return this.resolvedFunctions[func.name] ?? func
+    }
+
+    private addHook(file: string, hook: LuaHook) {
+        if (!hook.cls) {
+            const func = this.resolvedFunctions[hook.name] ?? this.functions[hook.name]
+            if (!func || func.hookedBy?.includes(file)) return
+
+            this.resolvedFunctions[hook.name] = { ...func, hookedBy: [...func.hookedBy ?? [], file] }
+            return
+        }
+
+        const cls = this.resolved[hook.cls]
+        if (!cls) return
+
+        // methods may be hooked with '.' and functions with ':'
+        const [first, second] = hook.isMethod ? [cls.methods, cls.functions] : [cls.functions, cls.methods]
+        if (!addHookedBy(first, hook.name, file)) {
+            addHookedBy(second, hook.name, file)
+        }
+    }
+
+    /**
+     * Resolves cross-file information once every file has been added.
+     * Members added to classes from other files are merged into the class definition,
+     * and base classes are checked against the known classes.
+     * Parse results are not modified, so the table can be rebuilt after files change.
+     * @returns A list of warnings.
+     */
+    resolve(): string[] {
+        const warnings: string[] = []
+
+        this.resolved = {}
+        for (const [name, cls] of Object.entries(this.classes)) {
+            this.resolved[name] = copyClass(cls)
+        }
+
+        for (const { info } of this.files) {
+            for (const [name, extension] of Object.entries(info.extensions)) {
+                const cls = this.resolved[name]
+                if (!cls) continue
+
+                for (const field of Object.values(extension.fields)) {
+                    const existing = cls.fields[field.name]
+                    if (existing) {
+                        existing.values.push(...field.values)
+                    } else {
+                        cls.fields[field.name] = { ...field, values: [...field.values] }
+                    }
+                }
+
+                mergeFunctions(cls.functions, extension.functions)
+                mergeFunctions(cls.methods, extension.methods)
+
+                for (const mixin of extension.mixins ?? []) {
+                    cls.mixins ??= []
+                    if (mixin !== cls.name && !cls.mixins.includes(mixin)) {
+                        cls.mixins.push(mixin)
+                    }
+                }
+
+                for (const assign of extension.statics) {
+                    // locals of the extending file aren't available to the class definition
+                    const refs = findIdentifierReferences(assign.init)
+                    if (refs.some(ref => info.locals[ref])) continue
+
+                    cls.statics.push(assign)
+                }
+            }
+        }
+
+        this.resolvedFunctions = {}
+        for (const { file, info } of this.files) {
+            for (const hook of info.hooks) {
+                this.addHook(file, hook)
+            }
+        }
+
+        for (const { file, info } of this.files) {
+            for (const cls of Object.values(info.classes)) {
+                if (!cls.base) continue
+
+                const base = this.getClass(cls.base)
+                if (!base) {
+                    warnings.push(`Unknown base class '${cls.base}' for class '${cls.name}' in ${file}`)
+                    continue
+                }
+
+                // instances created with X.new() are instances of the type X's constructor returns
+                const definition = this.getDefinition(cls)
+                if (cls.generated && base.constructorType && base.constructorType !== cls.name) {
+                    definition.base = base.constructorType
+                }
+            }
+        }
+
+        return warnings
+    }
+}
@@ -1,7 +1,56 @@
+export type OutputFormat = 'lua' | 'dts'
+
 export interface AnnotateArgs {
-    in: string
+    in: string[]
     out: string
     verbose?: boolean
     ['include-kahlua']?: boolean
     ['strict-fields']?: boolean
+    project?: boolean
+    rosetta: string
+    watch?: boolean
+    cache?: string
+    jobs?: number
+    check?: boolean
+    format?: OutputFormat
+    ['split-environments']?: boolean
+}
+
+export interface JavaAnnotateArgs {
+    out: string
+    rosetta: string
+    verbose?: boolean
+    ['strict-fields']?: boolean
+}
+
+export interface RosettaScaffoldArgs {
+    in: string
+    out: string
+    verbose?: boolean
+}
+
+export interface RosettaCheckArgs {
+    in: string
+    rosetta: string
+    json?: boolean
+    ['ignore-undocumented']?: boolean
+}
+
+export interface EnvironmentCheckArgs {
+    in: string
+    json?: boolean
+}
+
+export interface DumpArgs {
+    in: string
+    out?: string
+    rosetta: string
+    project?: boolean
+}
+
+export interface EventsArgs {
+    in: string
+    out: string
+    rosetta: string
+    report?: string
 }
@@ -0,0 +1,332 @@
+import fs from 'fs'
+import path from 'path'
+
+import { AnnotateArgs } from './types'
+import { LuaSourceInfo } from './parser/types'
+import { SymbolTable, getDefinedNames } from './symbols'
+import { ROSETTA_EXTENSIONS, findRosettaFiles, readRosettaNames } from './rosetta'
+import { getSandboxDirectories, isSandboxFile } from './sandbox'
+import {
+    ParsedFile,
+    findLuaFiles,
+    getInputRoot,
+    getRelativePath,
+    parseLuaFile,
+    resolveInputFile,
+    sortInputFiles,
+} from './files'
+import {
+    AnnotateResult,
+    annotateFile,
+    annotateSandboxFiles,
+    buildSymbolTable,
+    getOutputPaths,
+    loadRosetta,
+} from './pipeline'
+
+const DEBOUNCE_MS = 200
+
+/**
+ * Checks whether the annotations for a file depend on any of the given names.
+ */
+const dependsOn = (info: LuaSourceInfo, names: Set<string>): boolean => {
+    if (getDefinedNames(info).some(name => names.has(name))) return true
+
+    // base classes affect generated classes and constructor types
+    return Object.values(info.classes).some(cls => cls.base && names.has(cls.base))
+}
+
+/**
+ * Watches a directory with a watcher for each of its subdirectories, including ones created later.
+ */
+const watchEachDirectory = (dirPath: string, onChange: (fullPath: string) => void) => {
+    const watchers = new Map<string, fs.FSWatcher>()
+
+    const unwatch = (dir: string) => {
+        for (const [watched, watcher] of watchers) {
+            if (watched !== dir && !watched.startsWith(dir + path.sep)) continue
+
+            watcher.close()
+            watchers.delete(watched)
+        }
+    }
+
+    const watch = async (dir: string) => {
+        if (watchers.has(dir)) return
+
+        let watcher: fs.FSWatcher
+        try {
+            watcher = fs.watch(dir, (_, filename) => {
+                if (!filename) return
+
+                const fullPath = path.join(dir, filename.toString())
+                if (!fs.existsSync(fullPath)) {
+                    unwatch(fullPath)
+                } else if (fs.statSync(fullPath).isDirectory()) {
+                    watch(fullPath)
+                }
+
+                onChange(fullPath)
+            })
+        } catch (e) {
+            return
+        }
+
+        watcher.on('error', () => unwatch(dir))
+        watchers.set(dir, watcher)
+
+        try {
+            for await (const entry of await fs.promises.opendir(dir)) {
+                if (entry.isDirectory()) {
+                    await watch(path.join(dir, entry.name))
+                }
+            }
+        } catch (e) {
+            // removed while being watched
+        }
+    }
+
+    watch(dirPath)
+}
+
+/**
+ * Watches a directory and its subdirectories.
+ * @param onChange Called with the full path of each changed file or directory.
+ */
+const watchDirectory = (dirPath: string, onChange: (fullPath: string) => void) => {
+    try {
+        fs.watch(dirPath, { recursive: true }, (_, filename) => {
+            if (!filename) return
+            onChange(path.join(dirPath, filename.toString()))
+        })
+    } catch (e) {
+        // recursive watching is only supported on Linux from Node 19.1
+        watchEachDirectory(dirPath, onChange)
+    }
+}
+
+/**
+ * Watches the input and Rosetta directories, regenerating the annotations of affected files.
+ * @param initial The result of the initial run.
+ */
+export const watchFiles = async (options: AnnotateArgs, initial: AnnotateResult) => {
+    const roots = options.in
+    const rosettaDir = path.resolve(options.rosetta)
+
+    let rosetta = initial.rosetta ?? loadRosetta(options)
+    const parsedFiles = initial.parsedFiles
+
+    const files = new Map<string, ParsedFile>()
+    for (const file of parsedFiles) {
+        files.set(file.fullPath, file)
+    }
+
+    const rosettaNames = new Map<string, string[] | undefined>()
+    for (const fullPath of await findRosettaFiles(rosettaDir)) {
+        rosettaNames.set(fullPath, await readRosettaNames(fullPath))
+    }
+
+    const pendingLua = new Set<string>()
+    const pendingRosetta = new Set<string>()
+    let pendingSandbox = false
+
+    const update = async () => {
+        const errors: string[] = []
+        const warnings: string[] = []
+
+        const affected = new Set<string>()
+        const changedNames = new Set<string>()
+        let affectsAll = false
+
+        const luaPaths = [...pendingLua].sort()
+        const rosettaPaths = [...pendingRosetta].sort()
+        const sandboxChanged = pendingSandbox
+        pendingLua.clear()
+        pendingRosetta.clear()
+        pendingSandbox = false
+
+        for (const changedPath of luaPaths) {
+            // files overridden by a later input directory are replaced by the overriding file
+            const fullPath = resolveInputFile(roots, changedPath)
+            const relativePath = getRelativePath(roots, fullPath)
+
+            const replaced = [...files.keys()].find(x => x !== fullPath && getRelativePath(roots, x) === relativePath)
+            if (replaced) {
+                getDefinedNames(files.get(replaced)!.result).forEach(x => changedNames.add(x))
+                files.delete(replaced)
+                affected.delete(replaced)
+            }
+
+            const previous = files.get(fullPath)
+            if (previous) {
+                getDefinedNames(previous.result).forEach(x => changedNames.add(x))
+            }
+
+            let stat: fs.Stats | undefined
+            try {
+                stat = await fs.promises.stat(fullPath)
+            } catch (e) {
+                stat = undefined
+            }
+
+            if (stat?.isDirectory()) {
+                // directories moved into the input directory
+                for (const filePath of await findLuaFiles(fullPath, errors)) {
+                    if (files.has(filePath)) continue
+                    luaPaths.push(filePath)
+                }
+
+                continue
+            }
+
+            if (!stat) {
+                // removed files, or directories containing them
+                const removed = [...files.keys()].filter(x => x === fullPath || x.startsWith(fullPath + path.sep))
+                for (const removedPath of removed) {
+                    getDefinedNames(files.get(removedPath)!.result).forEach(x => changedNames.add(x))
+                    files.delete(removedPath)
+                    affected.delete(removedPath)
+
+                    for (const outputPath of getOutputPaths(options, removedPath)) {
+                        try {
+                            await fs.promises.rm(outputPath, { force: true })
+                        } catch (e) {
+                            errors.push(`Failed to remove file: ${outputPath}`)
+                        }
+                    }
+
+                    console.log(`Removed ${getRelativePath(roots, removedPath)}`)
+                }
+
+                continue
+            }
+
+            if (path.extname(fullPath) !== '.lua') continue
+
+            const parsed = await parseLuaFile(fullPath, getInputRoot(roots, fullPath), errors)
+            if (!parsed) continue
+
+            files.set(fullPath, parsed)
+            getDefinedNames(parsed.result).forEach(x => changedNames.add(x))
+            affected.add(fullPath)
+        }
+
+        if (rosettaPaths.length > 0) {
+            rosetta = loadRosetta(options)
+
+            for (const fullPath of rosettaPaths) {
+                // files which couldn't be read could describe anything
+                const wasUnknown = rosettaNames.has(fullPath) && !rosettaNames.get(fullPath)
+                const previous = rosettaNames.get(fullPath) ?? []
+                const current = fs.existsSync(fullPath) ? await readRosettaNames(fullPath) : []
+
+                if (fs.existsSync(fullPath)) {
+                    rosettaNames.set(fullPath, current)
+                } else {
+                    rosettaNames.delete(fullPath)
+                }
+
+                if (!current || wasUnknown) {
+                    affectsAll = true
+                    continue
+                }
+
+                for (const name of [...previous, ...current]) {
+                    if (options.project) {
+                        changedNames.add(name)
+                    } else {
+                        for (const file of files.values()) {
+                            if (!getDefinedNames(file.result).includes(name)) continue
+                            affected.add(file.fullPath)
+                        }
+                    }
+                }
+            }
+        }
+
+        // same order as the initial run, so class owners don't change
+        const sortedFiles = sortInputFiles(roots, [...files.keys()]).map(x => files.get(x)!)
+
+        let symbols: SymbolTable | undefined
+        if (options.project) {
+            symbols = buildSymbolTable(roots, sortedFiles, options.verbose)
+
+            for (const file of sortedFiles) {
+                if (!dependsOn(file.result, changedNames)) continue
+                affected.add(file.fullPath)
+            }
+        }
+
+        for (const file of sortedFiles) {
+            if (!affectsAll && !affected.has(file.fullPath)) continue
+
+            if (await annotateFile(rosetta, file, options, symbols, warnings, errors)) {
+                console.log(`Updated ${getRelativePath(roots, file.fullPath)}`)
+            }
+        }
+
+        if (sandboxChanged && await annotateSandboxFiles(() => rosetta, options, warnings, errors)) {
+            console.log('Updated __sandbox.lua')
+        }
+
+        for (const warning of warnings) {
+            console.warn(warning)
+        }
+
+        for (const error of errors) {
+            console.error(error)
+        }
+    }
+
+    let timeout: NodeJS.Timeout | undefined
+    let running: Promise<void> = Promise.resolve()
+
+    const schedule = () => {
+        if (timeout) {
+            clearTimeout(timeout)
+        }
+
+        // changes are processed one batch at a time
+        timeout = setTimeout(() => {
+            timeout = undefined
+            running = running.then(update).catch(e => console.error(e))
+        }, DEBOUNCE_MS)
+    }
+
+    for (const root of roots) {
+        watchDirectory(path.resolve(root), fullPath => {
+            if (isSandboxFile(roots, fullPath)) {
+                pendingSandbox = true
+            } else {
+                pendingLua.add(fullPath)
+            }
+
+            schedule()
+        })
+    }
+
+    // options files may be next to the input directories
+    for (const dir of getSandboxDirectories(roots)) {
+        if (roots.some(root => path.resolve(root) === dir)) continue
+
+        fs.watch(dir, (_, filename) => {
+            if (!filename || !isSandboxFile(roots, path.join(dir, filename.toString()))) return
+
+            pendingSandbox = true
+            schedule()
+        })
+    }
+
+    if (fs.existsSync(rosettaDir)) {
+        watchDirectory(rosettaDir, fullPath => {
+            if (!ROSETTA_EXTENSIONS.includes(path.extname(fullPath))) return
+
+            pendingRosetta.add(fullPath)
+            schedule()
+        })
+    } else {
+        console.warn(`Rosetta directory does not exist and won't be watched: ${rosettaDir}`)
+    }
+
+    console.log(`Watching ${roots.map(x => path.resolve(x)).join(', ')} for changes...`)
+}
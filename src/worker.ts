@@ -0,0 +1,52 @@
+import { parentPort, workerData } from 'worker_threads'
+
+import { OutputWriter, getInputRoot, parseLuaContent, parseLuaFile, writeOutputFile } from './files'
+import { annotateFile, loadRosetta } from './pipeline'
+import { WorkerData, WorkerRequest, WorkerResponse } from './workers'
+
+import { Rosetta } from 'pz-rosetta-ts/lib/asledgehammer/rosetta/Rosetta'
+
+/**
+ * Handles tasks sent to a worker thread by the main thread.
+ */
+export const runWorker = () => {
+    const { options } = workerData as WorkerData
+
+    let logs: string[] = []
+    let rosetta: Rosetta | undefined
+
+    parentPort!.on('message', async ({ index, task }: WorkerRequest) => {
+        const warnings: string[] = []
+        const errors: string[] = []
+        const outputs: [string, string][] = []
+
+        // checked annotations are compared by the main thread
+        const write: OutputWriter = options.check
+            ? async (outputPath, content) => {
+                outputs.push([outputPath, content.toString()])
+                return true
+            }
+            : writeOutputFile
+
+        const file = task.kind === 'parse' && task.content !== undefined
+            ? parseLuaContent(task.fullPath, task.content, getInputRoot(options.in, task.fullPath), errors)
+            : await parseLuaFile(task.fullPath, getInputRoot(options.in, task.fullPath), errors)
+
+        if (file && task.kind === 'annotate') {
+            rosetta ??= loadRosetta(options, message => logs.push(message))
+            await annotateFile(rosetta, file, options, undefined, warnings, errors, write)
+        }
+
+        const response: WorkerResponse = {
+            index,
+            result: task.kind === 'parse' ? file?.result : undefined,
+            warnings,
+            errors,
+            logs,
+            outputs,
+        }
+
+        logs = []
+        parentPort!.postMessage(response)
+    })
+}
@@ -0,0 +1,176 @@
+import os from 'os'
+import { Worker } from 'worker_threads'
+
+import { AnnotateArgs } from './types'
+import { LuaSourceInfo } from './parser/types'
+import { OutputWriter, ParsedFile, getInputRoot, parseLuaContent, parseLuaFile } from './files'
+
+export interface ParseTask {
+    kind: 'parse'
+    fullPath: string
+    content?: string
+}
+
+export interface AnnotateTask {
+    kind: 'annotate'
+    fullPath: string
+}
+
+export type WorkerTask = ParseTask | AnnotateTask
+
+export interface WorkerRequest {
+    index: number
+    task: WorkerTask
+}
+
+export interface WorkerResponse {
+    index: number
+    result?: LuaSourceInfo
+    warnings: string[]
+    errors: string[]
+
+    /** Messages logged by the worker, such as Rosetta failing to load. */
+    logs: string[]
+
+    /** Annotations which weren't written by the worker, in check mode. */
+    outputs: [string, string][]
+}
+
+export interface WorkerData {
+    options: AnnotateArgs
+}
+
+export const getJobCount = (options: AnnotateArgs): number => {
+    return Math.max(1, Math.floor(options.jobs ?? os.cpus().length))
+}
+
+/**
+ * Runs tasks across a pool of worker threads.
+ * @returns The responses, in the same order as the tasks.
+ */
+const runTasks = (tasks: WorkerTask[], options: AnnotateArgs): Promise<WorkerResponse[]> => {
+    return new Promise((resolve, reject) => {
+        const responses: WorkerResponse[] = new Array(tasks.length)
+        if (tasks.length === 0) {
+            resolve(responses)
+            return
+        }
+
+        let next = 0
+        let completed = 0
+        const workers: Worker[] = []
+
+        const count = Math.min(getJobCount(options), tasks.length)
+        for (let i = 0; i < count; i++) {
+            // workers run the bundled script, which starts the worker loop outside the main thread
+            const workerData: WorkerData = { options }
+            const worker = new Worker(__filename, { workerData })
+            workers.push(worker)
+
+            let pending = false
+            const postNext = () => {
+                if (next >= tasks.length) {
+                    worker.terminate()
+                    return
+                }
+
+                const request: WorkerRequest = { index: next, task: tasks[next++] }
+                pending = true
+                worker.postMessage(request)
+            }
+
+            worker.on('message', (response: WorkerResponse) => {
+                pending = false
+                responses[response.index] = response
+                completed++
+
+                if (completed === tasks.length) {
+                    resolve(responses)
+                }
+
+                postNext()
+            })
+
+            worker.on('error', e => {
+                workers.forEach(x => x.terminate())
+                reject(e)
+            })
+
+            worker.on('exit', code => {
+                if (!pending) return
+
+                workers.forEach(x => x.terminate())
+                reject(new Error(`Worker stopped with exit code ${code} before finishing its task`))
+            })
+
+            postNext()
+        }
+    })
+}
+
+/**
+ * Collects the warnings, errors and logs of worker responses in task order.
+ */
+const collectResponses = (responses: WorkerResponse[], warnings: string[], errors: string[]) => {
+    const logs = new Set<string>()
+    for (const response of responses) {
+        warnings.push(...response.warnings)
+        errors.push(...response.errors)
+        response.logs.forEach(x => logs.add(x))
+    }
+
+    for (const log of logs) {
+        console.log(log)
+    }
+}
+
+/**
+ * Parses Lua files, across worker threads if more than one job is used.
+ * @returns The parsed files in the same order as the sources, or undefined for files which failed.
+ */
+export const parseSources = async (
+    sources: { fullPath: string, content?: string }[],
+    options: AnnotateArgs,
+    errors: string[]
+): Promise<(ParsedFile | undefined)[]> => {
+    if (getJobCount(options) === 1 || sources.length < 2) {
+        const parsed: (ParsedFile | undefined)[] = []
+        for (const { fullPath, content } of sources) {
+            const root = getInputRoot(options.in, fullPath)
+            parsed.push(content === undefined
+                ? await parseLuaFile(fullPath, root, errors)
+                : parseLuaContent(fullPath, content, root, errors))
+        }
+
+        return parsed
+    }
+
+    const tasks: WorkerTask[] = sources.map(({ fullPath, content }) => ({ kind: 'parse', fullPath, content }))
+    const responses = await runTasks(tasks, options)
+    collectResponses(responses, [], errors)
+
+    return responses.map(({ result }, i) => result ? { fullPath: sources[i].fullPath, result } : undefined)
+}
+
+/**
+ * Parses, annotates and writes Lua files across worker threads.
+ * Files are annotated without a symbol table.
+ * @param write Receives annotations the workers didn't write, in check mode.
+ */
+export const annotateInWorkers = async (
+    fullPaths: string[],
+    options: AnnotateArgs,
+    warnings: string[],
+    errors: string[],
+    write: OutputWriter
+) => {
+    const tasks: WorkerTask[] = fullPaths.map(fullPath => ({ kind: 'annotate', fullPath }))
+    const responses = await runTasks(tasks, options)
+    collectResponses(responses, warnings, errors)
+
+    for (const response of responses) {
+        for (const [outputPath, content] of response.outputs) {
+            await write(outputPath, content, errors)
+        }
+    }
+}